@@ -0,0 +1,121 @@
+import { it, expect, describe, vi } from "vitest";
+
+import { runAccounts, summarizeAccount, type AccountsDeps } from "../commands/accounts.js";
+import type { UsageOpencodeStore } from "../storage.js";
+
+describe("accounts command", () => {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const mockStore: UsageOpencodeStore = {
+    version: 2,
+    accounts: [
+      {
+        id: "user-id",
+        email: "user@example.com",
+        antigravity: {
+          refreshToken: "ag-refresh",
+          cachedAccessToken: "ag-access",
+          cachedExpiresAt: nowSec + 1800,
+        },
+        geminiCli: {
+          refreshToken: "gc-refresh",
+          projectId: "gc-project",
+          cachedAccessToken: "gc-access",
+          cachedExpiresAt: nowSec - 60,
+        },
+        addedAt: Date.UTC(2026, 0, 1),
+        updatedAt: Date.UTC(2026, 1, 1),
+      },
+      {
+        id: "bare-id",
+        email: "bare@example.com",
+        antigravity: { refreshToken: "bare-refresh" },
+        addedAt: 0,
+        updatedAt: 0,
+      },
+    ],
+  };
+
+  const createMockDeps = (): AccountsDeps => ({
+    loadStore: vi.fn().mockResolvedValue(mockStore),
+  });
+
+  it("summarizes project source and cached token state", () => {
+    const summary = summarizeAccount(mockStore.accounts[0]);
+
+    expect(summary.id).toBe("user-id");
+    expect(summary.identities).toEqual([
+      {
+        identity: "antigravity",
+        projectId: undefined,
+        projectIdSource: "none",
+        cachedToken: "valid",
+        cachedExpiresAt: nowSec + 1800,
+      },
+      {
+        identity: "gemini-cli",
+        projectId: "gc-project",
+        projectIdSource: "identity",
+        cachedToken: "expired",
+        cachedExpiresAt: nowSec - 60,
+      },
+    ]);
+
+    const bare = summarizeAccount(mockStore.accounts[1]);
+    expect(bare.identities[0].projectIdSource).toBe("none");
+    expect(bare.identities[0].cachedToken).toBe("none");
+  });
+
+  it("lists accounts as a table without exposing tokens", async () => {
+    const result = await runAccounts({ action: "list", deps: createMockDeps() });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain("user@example.com");
+    expect(result.output).toContain("bare@example.com");
+    expect(result.output).toContain("gc-project");
+    expect(result.output).toContain("2026-01-01 00:00");
+    expect(result.output).not.toContain("ag-refresh");
+    expect(result.output).not.toContain("ag-access");
+  });
+
+  it("lists accounts as JSON", async () => {
+    const result = await runAccounts({ action: "list", format: "json", deps: createMockDeps() });
+
+    const parsed = JSON.parse(result.output);
+    expect(parsed.accounts).toHaveLength(2);
+    expect(parsed.accounts[0].identities[1].cachedToken).toBe("expired");
+    expect(result.output).not.toContain("refresh");
+  });
+
+  it("shows a single account", async () => {
+    const result = await runAccounts({
+      action: "show",
+      email: "user@example.com",
+      deps: createMockDeps(),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.accounts).toHaveLength(1);
+    expect(result.output).toContain("gc-project");
+    expect(result.output).not.toContain("bare@example.com");
+  });
+
+  it("fails to show an unknown account", async () => {
+    const result = await runAccounts({
+      action: "show",
+      email: "missing@example.com",
+      deps: createMockDeps(),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("missing@example.com");
+  });
+
+  it("renders empty store message", async () => {
+    const deps: AccountsDeps = {
+      loadStore: vi.fn().mockResolvedValue({ version: 2, accounts: [] }),
+    };
+    const result = await runAccounts({ action: "list", deps });
+
+    expect(result.output).toContain("No accounts found");
+  });
+});
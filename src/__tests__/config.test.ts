@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { loadConfig, saveConfig, getConfigPath, parseConfigValue } from "../config.js";
+import { runConfig } from "../commands/config.js";
+
+describe("config", () => {
+  it("returns an empty config when the file does not exist", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      expect(await loadConfig({ configDir: dir })).toEqual({});
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("round-trips through saveConfig and ignores unknown keys", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      await saveConfig({ configDir: dir }, { format: "json", summaryModels: ["a", "b"] });
+      const raw = JSON.parse(await readFile(getConfigPath({ configDir: dir }), "utf8"));
+      await writeFile(getConfigPath({ configDir: dir }), JSON.stringify({ ...raw, future: 1 }), "utf8");
+
+      expect(await loadConfig({ configDir: dir })).toEqual({ format: "json", summaryModels: ["a", "b"] });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects malformed or invalid config files with the path", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const configPath = getConfigPath({ configDir: dir });
+    try {
+      await writeFile(configPath, "{not json", "utf8");
+      await expect(loadConfig({ configDir: dir })).rejects.toThrow(configPath);
+
+      await writeFile(configPath, JSON.stringify({ format: "xml" }), "utf8");
+      await expect(loadConfig({ configDir: dir })).rejects.toThrow("Invalid format");
+
+      // template can't be a default: plain `status` would have no template to render
+      await writeFile(configPath, JSON.stringify({ format: "template" }), "utf8");
+      await expect(loadConfig({ configDir: dir })).rejects.toThrow("Invalid format: template");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("validates values per key", () => {
+    expect(parseConfigValue("only", "gemini-cli")).toBe("gemini-cli");
+    expect(parseConfigValue("summaryModels", " a, b ,")).toEqual(["a", "b"]);
+    expect(parseConfigValue("failBelow", "10,claude-*:20")).toEqual(["10", "claude-*:20"]);
+    expect(() => parseConfigValue("only", "both")).toThrow("Invalid identity");
+    expect(() => parseConfigValue("account", "nobody")).toThrow("email");
+    expect(() => parseConfigValue("failBelow", "10,claude-*:abc")).toThrow("claude-*:abc");
+    expect(parseConfigValue("resetFormat", "both")).toBe("both");
+    expect(parseConfigValue("tz", "Europe/Berlin")).toBe("Europe/Berlin");
+    expect(() => parseConfigValue("resetFormat", "iso")).toThrow("Invalid resetFormat");
+    expect(() => parseConfigValue("tz", "Mars/Olympus_Mons")).toThrow("Invalid tz");
+  });
+});
+
+describe("runConfig", () => {
+  it("sets, gets and unsets keys on disk", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const set = await runConfig({ action: "set", key: "format", value: "json", configDir: dir });
+      expect(set.success).toBe(true);
+      expect(set.output).toBe("Set format = json\n");
+
+      const get = await runConfig({ action: "get", key: "format", configDir: dir });
+      expect(get.output).toBe("json\n");
+
+      const list = await runConfig({ action: "list", configDir: dir });
+      expect(list.output).toContain("format");
+      expect(list.output).toContain(getConfigPath({ configDir: dir }));
+
+      await runConfig({ action: "unset", key: "format", configDir: dir });
+      expect(await loadConfig({ configDir: dir })).toEqual({});
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses unknown keys and invalid values without writing", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const unknown = await runConfig({ action: "set", key: "colour", value: "red", configDir: dir });
+      expect(unknown.success).toBe(false);
+      expect(unknown.error).toContain("Valid keys");
+
+      const invalid = await runConfig({ action: "set", key: "format", value: "xml", configDir: dir });
+      expect(invalid.success).toBe(false);
+      await expect(readFile(getConfigPath({ configDir: dir }), "utf8")).rejects.toBeTruthy();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { runDoctor, type DoctorDeps } from "../commands/doctor.js";
+import type { UsageOpencodeStore } from "../storage.js";
+
+describe("doctor command", () => {
+  const mockStore: UsageOpencodeStore = {
+    version: 2,
+    accounts: [
+      {
+        id: "user-id",
+        email: "user@example.com",
+        antigravity: { refreshToken: "ag-refresh" },
+        geminiCli: { refreshToken: "gc-refresh", projectId: "gc-project" },
+        addedAt: 0,
+        updatedAt: 0,
+      },
+    ],
+  };
+
+  const createMockDeps = (overrides?: Partial<DoctorDeps>): DoctorDeps => ({
+    loadStore: vi.fn().mockResolvedValue(mockStore),
+    checkStoreFile: vi.fn().mockResolvedValue({
+      path: "/tmp/usage-google-accounts.json",
+      exists: true,
+      mode: 0o600,
+      accountCount: 1,
+    }),
+    refreshAccessToken: vi.fn().mockResolvedValue({ accessToken: "access", expiresAt: 0 }),
+    discoverProjectId: vi.fn().mockImplementation(async ({ projectId }) =>
+      projectId
+        ? { projectId, source: "stored", attempts: [] }
+        : {
+            projectId: "discovered-project",
+            source: "discovered",
+            endpoint: "https://daily-cloudcode-pa.sandbox.googleapis.com/v1internal:loadCodeAssist",
+            attempts: [],
+          },
+    ),
+    fetchUserEmail: vi.fn().mockResolvedValue("user@example.com"),
+    fetchQuota: vi.fn().mockResolvedValue([{ model: "gemini-3-pro", remainingPercent: 50, resetTime: "" }]),
+    ...overrides,
+  });
+
+  it("reports a healthy pipeline for every identity", async () => {
+    const result = await runDoctor({ deps: createMockDeps() });
+
+    expect(result.healthy).toBe(true);
+    expect(result.identities).toHaveLength(2);
+    expect(result.identities[0].checks.map((c) => c.name)).toEqual([
+      "Token refresh",
+      "Project discovery",
+      "User info",
+      "Quota fetch",
+    ]);
+    expect(result.output).toContain("daily-cloudcode-pa.sandbox.googleapis.com");
+    expect(result.output).toContain("Using stored project gc-project");
+    expect(result.output).toContain("All checks passed.");
+  });
+
+  it("skips later steps and suggests relogin on invalid_grant", async () => {
+    const deps = createMockDeps({
+      refreshAccessToken: vi.fn().mockRejectedValue(
+        Object.assign(new Error("OAuth token request failed"), { error: "invalid_grant", status: 400 }),
+      ),
+    });
+
+    const result = await runDoctor({ deps, identityFilter: "antigravity" });
+
+    expect(result.healthy).toBe(false);
+    const checks = result.identities[0].checks;
+    expect(checks[0]).toMatchObject({ level: "fail", httpStatus: 400 });
+    expect(checks[0].hint).toContain("usage-google login --mode antigravity");
+    expect(checks.slice(1).every((c) => c.level === "skip")).toBe(true);
+    expect(deps.fetchQuota).not.toHaveBeenCalled();
+  });
+
+  it("warns when falling back to the default project", async () => {
+    const deps = createMockDeps({
+      discoverProjectId: vi.fn().mockResolvedValue({
+        projectId: "bamboo-precept-lgxtn",
+        source: "default",
+        attempts: [
+          { endpoint: "https://daily-cloudcode-pa.sandbox.googleapis.com/v1internal:loadCodeAssist", status: 429, durationMs: 5 },
+          { endpoint: "https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist", error: "timeout", durationMs: 5 },
+        ],
+      }),
+    });
+
+    const result = await runDoctor({ deps, identityFilter: "antigravity" });
+
+    const project = result.identities[0].checks[1];
+    expect(project.level).toBe("warn");
+    expect(project.detail).toContain("bamboo-precept-lgxtn");
+    expect(project.detail).toContain("HTTP 429");
+    expect(result.healthy).toBe(true);
+  });
+
+  it("explains 403 quota failures", async () => {
+    const deps = createMockDeps({
+      fetchQuota: vi.fn().mockRejectedValue(Object.assign(new Error("Forbidden: HTTP 403"), { status: 403 })),
+    });
+
+    const result = await runDoctor({ deps, identityFilter: "gemini-cli" });
+
+    const quota = result.identities[0].checks[3];
+    expect(quota).toMatchObject({ level: "fail", httpStatus: 403 });
+    expect(quota.hint).toContain("--project");
+  });
+
+  it("flags loose permissions and unparsable store files", async () => {
+    const deps = createMockDeps({
+      checkStoreFile: vi.fn().mockResolvedValue({
+        path: "/tmp/store.json",
+        exists: true,
+        mode: 0o644,
+        error: "Unexpected token",
+      }),
+    });
+
+    const result = await runDoctor({ deps, format: "json" });
+
+    expect(result.healthy).toBe(false);
+    expect(result.store[0]).toMatchObject({ name: "Permissions", level: "warn" });
+    expect(result.store[0].hint).toContain("chmod 600");
+    expect(result.store[1]).toMatchObject({ name: "Parse", level: "fail" });
+    expect(JSON.parse(result.output).healthy).toBe(false);
+  });
+});
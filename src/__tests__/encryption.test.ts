@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, readFile, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  createKeyFile,
+  decryptStoreData,
+  encryptStoreData,
+  isEncryptedStoreFile,
+  secretFromEnv,
+  StoreEncryptionError,
+} from "../encryption.js";
+
+describe("encryption", () => {
+  it("round-trips store JSON with a passphrase", async () => {
+    const file = await encryptStoreData('{"version":1,"accounts":[]}', { passphrase: "hunter2" });
+    expect(isEncryptedStoreFile(file)).toBe(true);
+    expect(file.kdf.name).toBe("scrypt");
+    expect(file.data).not.toContain("accounts");
+
+    await expect(decryptStoreData(file, { passphrase: "hunter2" })).resolves.toBe('{"version":1,"accounts":[]}');
+  });
+
+  it("rejects a wrong passphrase or tampered parameters", async () => {
+    const file = await encryptStoreData("secret", { passphrase: "right" });
+    await expect(decryptStoreData(file, { passphrase: "wrong" })).rejects.toThrow(/wrong passphrase/);
+
+    const tampered = { ...file, kdf: { ...file.kdf, salt: Buffer.alloc(16).toString("base64") } };
+    await expect(decryptStoreData(tampered, { passphrase: "right" })).rejects.toBeInstanceOf(StoreEncryptionError);
+  });
+
+  it("uses key files and refuses the wrong kind of secret", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const keyFile = join(dir, "store.key");
+      expect(await createKeyFile(keyFile)).toBe(true);
+      expect(await createKeyFile(keyFile)).toBe(false);
+      if (process.platform !== "win32") {
+        expect((await stat(keyFile)).mode & 0o777).toBe(0o600);
+      }
+      expect((await readFile(keyFile, "utf8")).length).toBeGreaterThan(16);
+
+      const file = await encryptStoreData("secret", { keyFile });
+      expect(file.kdf.name).toBe("hkdf-sha256");
+      await expect(decryptStoreData(file, { keyFile })).resolves.toBe("secret");
+      await expect(decryptStoreData(file, { passphrase: "x" })).rejects.toThrow(/key file/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads the secret from the environment", () => {
+    expect(secretFromEnv({ USAGE_GOOGLE_PASSPHRASE: "p", USAGE_GOOGLE_KEY_FILE: "/k" })).toEqual({ passphrase: "p" });
+    expect(secretFromEnv({ USAGE_GOOGLE_KEY_FILE: "/k" })).toEqual({ keyFile: "/k" });
+    expect(secretFromEnv({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+
+import { computeForecasts, forecastFromReadings } from "../forecast.js";
+import { runForecast } from "../commands/forecast.js";
+import type { QuotaHistoryEntry } from "../history.js";
+
+const HOUR = 60 * 60 * 1000;
+const RESET_TIME = new Date(Date.now() + 10 * HOUR).toISOString();
+
+const reading = (overrides: Partial<QuotaHistoryEntry>): QuotaHistoryEntry => ({
+  email: "user@example.com",
+  identity: "antigravity",
+  model: "claude-opus",
+  remainingPercent: 100,
+  resetTime: RESET_TIME,
+  fetchedAt: Date.now(),
+  ...overrides,
+});
+
+describe("forecastFromReadings", () => {
+  it("predicts exhaustion before reset", () => {
+    const now = Date.now();
+    const forecast = forecastFromReadings([
+      reading({ remainingPercent: 80, fetchedAt: now - 2 * HOUR }),
+      reading({ remainingPercent: 60, fetchedAt: now }),
+    ]);
+
+    expect(forecast.samples).toBe(2);
+    expect(forecast.ratePerHour).toBeCloseTo(10);
+    expect(forecast.exhaustsAt).toBeCloseTo(now + 6 * HOUR, -3);
+    expect(forecast.exhaustsBeforeReset).toBe(true);
+  });
+
+  it("reports quota lasting until reset when burn is slow", () => {
+    const now = Date.now();
+    const forecast = forecastFromReadings([
+      reading({ remainingPercent: 90, fetchedAt: now - 2 * HOUR }),
+      reading({ remainingPercent: 89, fetchedAt: now }),
+    ]);
+
+    expect(forecast.exhaustsBeforeReset).toBe(false);
+  });
+
+  it("ignores readings from before the last reset", () => {
+    const now = Date.now();
+    const forecast = forecastFromReadings([
+      reading({ remainingPercent: 5, fetchedAt: now - 3 * HOUR, resetTime: new Date(now - 2 * HOUR).toISOString() }),
+      reading({ remainingPercent: 100, fetchedAt: now - HOUR }),
+      reading({ remainingPercent: 95, fetchedAt: now }),
+    ]);
+
+    expect(forecast.samples).toBe(2);
+    expect(forecast.ratePerHour).toBeCloseTo(5);
+  });
+
+  it("has no rate with a single reading or a too-short span", () => {
+    expect(forecastFromReadings([reading({})]).ratePerHour).toBeUndefined();
+
+    const now = Date.now();
+    const short = forecastFromReadings([
+      reading({ remainingPercent: 90, fetchedAt: now - 60_000 }),
+      reading({ remainingPercent: 80, fetchedAt: now }),
+    ]);
+    expect(short.ratePerHour).toBeUndefined();
+  });
+
+  it("groups readings per account, identity and model", () => {
+    const forecasts = computeForecasts([
+      reading({}),
+      reading({ identity: "gemini-cli" }),
+      reading({ model: "gemini-3-pro" }),
+      reading({}),
+    ]);
+
+    expect(forecasts).toHaveLength(3);
+  });
+});
+
+describe("forecast command", () => {
+  it("lists urgent models first", async () => {
+    const now = Date.now();
+    const entries = [
+      reading({ model: "slow", remainingPercent: 50, fetchedAt: now - HOUR }),
+      reading({ model: "slow", remainingPercent: 50, fetchedAt: now }),
+      reading({ model: "fast", remainingPercent: 90, fetchedAt: now - HOUR }),
+      reading({ model: "fast", remainingPercent: 60, fetchedAt: now }),
+    ];
+
+    const result = await runForecast({ deps: { readHistory: async () => entries } });
+
+    expect(result.forecasts.map((f) => f.model)).toEqual(["fast", "slow"]);
+    expect(result.output).toContain("Runs out before reset");
+    expect(result.output).toContain("30.0%/h");
+  });
+
+  it("renders JSON", async () => {
+    const result = await runForecast({
+      format: "json",
+      deps: { readHistory: async () => [reading({})] },
+    });
+
+    expect(JSON.parse(result.output).forecasts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, readFile, readdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  appendHistory,
+  compactHistory,
+  getHistoryPath,
+  readHistory,
+  reportsToHistoryEntries,
+  type QuotaHistoryEntry,
+} from "../history.js";
+import { runHistory, parseTimeSpec } from "../commands/history.js";
+
+const entry = (overrides: Partial<QuotaHistoryEntry>): QuotaHistoryEntry => ({
+  email: "user@example.com",
+  identity: "antigravity",
+  model: "gemini-3-pro",
+  remainingPercent: 80,
+  resetTime: "2026-01-18T00:00:00Z",
+  fetchedAt: Date.now(),
+  ...overrides,
+});
+
+describe("history store", () => {
+  it("flattens reports into one entry per model", () => {
+    const entries = reportsToHistoryEntries([
+      {
+        email: "user@example.com",
+        identity: "gemini-cli",
+        projectId: "p",
+        models: [
+          { model: "a", remainingPercent: 10, resetTime: "" },
+          { model: "b", remainingPercent: 20, resetTime: "" },
+        ],
+        fetchedAt: 123,
+      },
+    ]);
+
+    expect(entries).toEqual([
+      { email: "user@example.com", identity: "gemini-cli", model: "a", remainingPercent: 10, resetTime: "", fetchedAt: 123 },
+      { email: "user@example.com", identity: "gemini-cli", model: "b", remainingPercent: 20, resetTime: "", fetchedAt: 123 },
+    ]);
+  });
+
+  it("appends and queries entries by account, model and time range", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      await appendHistory({ configDir: dir }, [
+        entry({ fetchedAt: 3000 }),
+        entry({ model: "claude-opus", fetchedAt: 1000 }),
+      ]);
+      await appendHistory({ configDir: dir }, [entry({ email: "other@example.com", fetchedAt: 2000 })]);
+
+      const all = await readHistory({ configDir: dir });
+      expect(all.map((e) => e.fetchedAt)).toEqual([1000, 2000, 3000]);
+
+      const byModel = await readHistory({ configDir: dir }, { model: "claude-opus" });
+      expect(byModel).toHaveLength(1);
+
+      const byAccount = await readHistory({ configDir: dir }, { email: "other@example.com" });
+      expect(byAccount).toHaveLength(1);
+
+      const byRange = await readHistory({ configDir: dir }, { since: 1500, until: 2500 });
+      expect(byRange.map((e) => e.fetchedAt)).toEqual([2000]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("skips malformed lines and returns [] when no file exists", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      expect(await readHistory({ configDir: dir })).toEqual([]);
+
+      await writeFile(
+        getHistoryPath({ configDir: dir }),
+        JSON.stringify(entry({ fetchedAt: 1 })) + "\n{truncated\n",
+        "utf8",
+      );
+      expect(await readHistory({ configDir: dir })).toHaveLength(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("compacts entries older than the retention window", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const now = Date.now();
+      await appendHistory({ configDir: dir }, [
+        entry({ fetchedAt: now - 10_000 }),
+        entry({ fetchedAt: now }),
+      ]);
+
+      await compactHistory({ configDir: dir }, 5_000);
+
+      const raw = await readFile(getHistoryPath({ configDir: dir }), "utf8");
+      expect(raw.trim().split("\n")).toHaveLength(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps appends that race with compaction", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const now = Date.now();
+      await appendHistory({ configDir: dir }, [entry({ fetchedAt: now - 10_000 })]);
+
+      await Promise.all([
+        compactHistory({ configDir: dir }, 5_000),
+        ...[1, 2, 3].map((i) => appendHistory({ configDir: dir }, [entry({ fetchedAt: now + i })])),
+        compactHistory({ configDir: dir }, 5_000),
+      ]);
+
+      const kept = await readHistory({ configDir: dir });
+      expect(kept.map((e) => e.fetchedAt)).toEqual([now + 1, now + 2, now + 3]);
+      expect(await readdir(dir)).toEqual(["usage-google-history.jsonl"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("history command", () => {
+  it("parses relative and absolute time specs", () => {
+    const now = Date.UTC(2026, 0, 2);
+    expect(parseTimeSpec("24h", now)).toBe(Date.UTC(2026, 0, 1));
+    expect(parseTimeSpec("30m", now)).toBe(now - 30 * 60 * 1000);
+    expect(parseTimeSpec("2026-01-01T00:00:00Z", now)).toBe(Date.UTC(2026, 0, 1));
+    expect(parseTimeSpec("yesterday-ish", now)).toBeUndefined();
+  });
+
+  it("renders newest entries up to the limit", async () => {
+    const entries = [entry({ fetchedAt: 1, remainingPercent: 90 }), entry({ fetchedAt: 2, remainingPercent: 42 })];
+    const result = await runHistory({
+      limit: 1,
+      deps: { readHistory: async () => entries },
+    });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.output).toContain("42%");
+    expect(result.output).not.toContain("90%");
+  });
+
+  it("renders JSON and an empty-state message", async () => {
+    const json = await runHistory({ format: "json", deps: { readHistory: async () => [entry({})] } });
+    expect(JSON.parse(json.output).entries).toHaveLength(1);
+
+    const empty = await runHistory({ deps: { readHistory: async () => [] } });
+    expect(empty.output).toContain("No history recorded yet");
+  });
+});
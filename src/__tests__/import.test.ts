@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from "vitest";
+import { join } from "node:path";
+
+import { runImport, getGcloudAdcPath, identityForClientId, type ImportDeps } from "../commands/import.js";
+import { OAUTH_CLIENTS } from "../oauth/constants.js";
+import type { UsageOpencodeStore } from "../storage.js";
+
+describe("import command", () => {
+  const geminiCreds = JSON.stringify({
+    access_token: "old-access",
+    refresh_token: "gemini-refresh",
+    expiry_date: 0,
+    token_type: "Bearer",
+  });
+
+  const createMockDeps = (files: Record<string, string>, store?: UsageOpencodeStore): ImportDeps => ({
+    loadStore: vi.fn().mockResolvedValue(store ?? { version: 2, accounts: [] }),
+    saveStore: vi.fn().mockResolvedValue(undefined),
+    readFile: vi.fn(async (filePath: string) => {
+      if (filePath in files) return files[filePath]!;
+      throw Object.assign(new Error(`ENOENT: ${filePath}`), { code: "ENOENT" });
+    }),
+    refreshAccessToken: vi.fn().mockResolvedValue({ accessToken: "new-access", expiresAt: 1234 }),
+    fetchUserEmail: vi.fn().mockResolvedValue("user@example.com"),
+  });
+
+  it("maps client IDs to identities", () => {
+    expect(identityForClientId(OAUTH_CLIENTS.antigravity.clientId)).toBe("antigravity");
+    expect(identityForClientId(OAUTH_CLIENTS["gemini-cli"].clientId)).toBe("gemini-cli");
+    expect(identityForClientId("764086051850-gcloud.apps.googleusercontent.com")).toBeUndefined();
+  });
+
+  it("honors CLOUDSDK_CONFIG for the ADC path", () => {
+    expect(getGcloudAdcPath({ CLOUDSDK_CONFIG: "/tmp/gcloud" })).toBe(
+      join("/tmp/gcloud", "application_default_credentials.json"),
+    );
+  });
+
+  it("imports a Gemini CLI file as the gemini-cli identity, keeping the stored project", async () => {
+    const store: UsageOpencodeStore = {
+      version: 2,
+      accounts: [
+        {
+          id: "user-id",
+          email: "user@example.com",
+          geminiCli: { refreshToken: "stale", projectId: "my-project" },
+          addedAt: 1,
+          updatedAt: 1,
+        },
+      ],
+    };
+    const deps = createMockDeps({ "/creds/oauth_creds.json": geminiCreds }, store);
+
+    const result = await runImport({ file: "/creds/oauth_creds.json", deps });
+
+    expect(result.success).toBe(true);
+    expect(result.outcomes).toEqual([
+      {
+        path: "/creds/oauth_creds.json",
+        source: "gemini",
+        status: "imported",
+        email: "user@example.com",
+        identity: "gemini-cli",
+      },
+    ]);
+    expect(deps.refreshAccessToken).toHaveBeenCalledWith({ identity: "gemini-cli", refreshToken: "gemini-refresh" });
+    expect(deps.fetchUserEmail).toHaveBeenCalledWith({ accessToken: "new-access" });
+
+    const saved = (deps.saveStore as ReturnType<typeof vi.fn>).mock.calls[0]![1] as UsageOpencodeStore;
+    expect(saved.accounts).toHaveLength(1);
+    expect(saved.accounts[0]?.geminiCli).toEqual({
+      refreshToken: "gemini-refresh",
+      projectId: "my-project",
+      cachedAccessToken: "new-access",
+      cachedExpiresAt: 1234,
+    });
+  });
+
+  it("detects the identity of gcloud ADC credentials by client ID", async () => {
+    const adc = (clientId: string) =>
+      JSON.stringify({ type: "authorized_user", client_id: clientId, client_secret: "s", refresh_token: "adc-refresh" });
+    const deps = createMockDeps({
+      "/a.json": adc(OAUTH_CLIENTS.antigravity.clientId),
+      "/b.json": adc("764086051850-gcloud.apps.googleusercontent.com"),
+    });
+
+    const imported = await runImport({ file: "/a.json", deps });
+    expect(imported.outcomes[0]).toMatchObject({ source: "gcloud", status: "imported", identity: "antigravity" });
+
+    const rejected = await runImport({ file: "/b.json", deps });
+    expect(rejected.success).toBe(false);
+    expect(rejected.outcomes[0]?.status).toBe("failed");
+    expect(rejected.outcomes[0]?.error).toContain("764086051850");
+    expect(deps.saveStore).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports missing default files and unusable credentials without saving", async () => {
+    const deps = createMockDeps({
+      "/sa.json": JSON.stringify({ type: "service_account", client_email: "sa@p.iam.gserviceaccount.com" }),
+    });
+
+    const defaults = await runImport({ deps });
+    expect(defaults.outcomes.map((outcome) => [outcome.source, outcome.status])).toEqual([
+      ["gemini", "missing"],
+      ["gcloud", "missing"],
+    ]);
+
+    expect((await runImport({ file: "/sa.json", deps })).outcomes[0]?.error).toContain("service_account");
+    expect((await runImport({ file: "/missing.json", deps })).outcomes[0]?.status).toBe("failed");
+
+    const revoked = createMockDeps({ "/creds.json": geminiCreds });
+    (revoked.refreshAccessToken as ReturnType<typeof vi.fn>).mockRejectedValue(new Error("invalid_grant"));
+    const result = await runImport({ file: "/creds.json", deps: revoked });
+    expect(result.outcomes[0]).toMatchObject({ status: "failed", error: "invalid_grant" });
+    expect(deps.saveStore).not.toHaveBeenCalled();
+    expect(revoked.saveStore).not.toHaveBeenCalled();
+  });
+});
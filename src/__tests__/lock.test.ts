@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile, access } from "node:fs/promises";
+import { tmpdir, hostname } from "node:os";
+import { join } from "node:path";
+
+import { getLockPath, LockTimeoutError, withFileLock } from "../lock.js";
+
+describe("lock", () => {
+  const withDir = async (fn: (file: string) => Promise<void>) => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      await fn(join(dir, "store.json"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  };
+
+  it("serializes holders and removes the lock afterwards", async () => {
+    await withDir(async (file) => {
+      const events: string[] = [];
+      const hold = (name: string) =>
+        withFileLock(file, async () => {
+          events.push(`${name} start`);
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          events.push(`${name} end`);
+        });
+
+      await Promise.all([hold("a"), hold("b")]);
+      expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+      await expect(access(getLockPath(file))).rejects.toBeTruthy();
+    });
+  });
+
+  it("releases the lock when the callback throws", async () => {
+    await withDir(async (file) => {
+      await expect(withFileLock(file, async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+      await expect(withFileLock(file, async () => "again")).resolves.toBe("again");
+    });
+  });
+
+  it("takes over stale locks", async () => {
+    await withDir(async (file) => {
+      const lockPath = getLockPath(file);
+      await writeFile(lockPath, JSON.stringify({ pid: process.ppid, hostname: hostname(), createdAt: 0 }));
+      await expect(withFileLock(file, async () => "old", { timeoutMs: 200 })).resolves.toBe("old");
+
+      // Owner process on this host no longer exists
+      await writeFile(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), createdAt: Date.now() }));
+      await expect(withFileLock(file, async () => "dead", { timeoutMs: 200 })).resolves.toBe("dead");
+
+      await writeFile(lockPath, "");
+      await expect(withFileLock(file, async () => "garbled", { timeoutMs: 200 })).resolves.toBe("garbled");
+    });
+  });
+
+  it("times out while a live process holds the lock", async () => {
+    await withDir(async (file) => {
+      const owner = { pid: process.ppid, hostname: hostname(), createdAt: Date.now() };
+      await writeFile(getLockPath(file), JSON.stringify(owner));
+      await expect(withFileLock(file, async () => "never", { timeoutMs: 100, retryMs: 10 })).rejects.toBeInstanceOf(
+        LockTimeoutError,
+      );
+    });
+  });
+});
@@ -49,7 +49,7 @@ describe("runLogin", () => {
   let savedStore: UsageOpencodeStore | null = null;
 
   const createMockDeps = (overrides?: Partial<LoginDeps>): LoginDeps => {
-    const mockStore: UsageOpencodeStore = { version: 1, accounts: [] };
+    const mockStore: UsageOpencodeStore = { version: 2, accounts: [] };
 
     return {
       loadStore: vi.fn().mockResolvedValue(mockStore),
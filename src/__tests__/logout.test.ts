@@ -0,0 +1,127 @@
+import { it, expect, describe, vi } from "vitest";
+
+import { runLogout, type LogoutDeps } from "../commands/logout.js";
+import type { UsageOpencodeStore } from "../storage.js";
+
+describe("runLogout", () => {
+  const createStore = (): UsageOpencodeStore => ({
+    version: 2,
+    accounts: [
+      {
+        id: "user-id",
+        email: "user@example.com",
+        antigravity: { refreshToken: "ag-refresh" },
+        geminiCli: { refreshToken: "gc-refresh", projectId: "my-project" },
+        addedAt: 0,
+        updatedAt: 0,
+      },
+      {
+        id: "other-id",
+        email: "other@example.com",
+        antigravity: { refreshToken: "other-refresh" },
+        addedAt: 0,
+        updatedAt: 0,
+      },
+    ],
+  });
+
+  const createMockDeps = (overrides?: Partial<LogoutDeps>): LogoutDeps => ({
+    loadStore: vi.fn().mockResolvedValue(createStore()),
+    saveStore: vi.fn().mockResolvedValue(undefined),
+    revokeToken: vi.fn().mockResolvedValue(undefined),
+    removeStoreBackups: vi.fn().mockResolvedValue([]),
+    ...overrides,
+  });
+
+  const savedStore = (deps: LogoutDeps): UsageOpencodeStore =>
+    (deps.saveStore as any).mock.calls[0][1] as UsageOpencodeStore;
+
+  it("removes the whole account and revokes every identity", async () => {
+    const deps = createMockDeps();
+
+    const result = await runLogout({ email: "user@example.com", deps });
+
+    expect(result.success).toBe(true);
+    expect(result.accountRemoved).toBe(true);
+    expect(result.identitiesRemoved).toEqual(["antigravity", "gemini-cli"]);
+    expect(deps.revokeToken).toHaveBeenCalledWith({ token: "ag-refresh" });
+    expect(deps.revokeToken).toHaveBeenCalledWith({ token: "gc-refresh" });
+    expect(savedStore(deps).accounts.map((a) => a.email)).toEqual(["other@example.com"]);
+  });
+
+  it("deletes plaintext store backups that still hold the tokens", async () => {
+    const deps = createMockDeps({
+      removeStoreBackups: vi.fn().mockResolvedValue(["/cfg/usage-google-accounts.json.v1.bak"]),
+    });
+
+    const result = await runLogout({ email: "user@example.com", configDir: "/cfg", deps });
+
+    expect(deps.removeStoreBackups).toHaveBeenCalledWith({ configDir: "/cfg" });
+    expect(result.backupsRemoved).toEqual(["/cfg/usage-google-accounts.json.v1.bak"]);
+  });
+
+  it("removes a single identity and keeps the other", async () => {
+    const deps = createMockDeps();
+
+    const result = await runLogout({ email: "user@example.com", identity: "gemini-cli", deps });
+
+    expect(result.success).toBe(true);
+    expect(result.accountRemoved).toBe(false);
+    expect(deps.revokeToken).toHaveBeenCalledTimes(1);
+    expect(deps.revokeToken).toHaveBeenCalledWith({ token: "gc-refresh" });
+    const account = savedStore(deps).accounts.find((a) => a.email === "user@example.com");
+    expect(account?.antigravity?.refreshToken).toBe("ag-refresh");
+    expect(account?.geminiCli).toBeUndefined();
+  });
+
+  it("drops the account when its last identity is removed", async () => {
+    const deps = createMockDeps();
+
+    const result = await runLogout({ email: "other@example.com", identity: "antigravity", deps });
+
+    expect(result.accountRemoved).toBe(true);
+    expect(savedStore(deps).accounts.map((a) => a.email)).toEqual(["user@example.com"]);
+  });
+
+  it("skips revocation with keepRemote", async () => {
+    const deps = createMockDeps();
+
+    const result = await runLogout({ email: "user@example.com", keepRemote: true, deps });
+
+    expect(result.success).toBe(true);
+    expect(deps.revokeToken).not.toHaveBeenCalled();
+    expect(deps.saveStore).toHaveBeenCalledTimes(1);
+  });
+
+  it("still removes locally when revocation fails", async () => {
+    const deps = createMockDeps({
+      revokeToken: vi.fn().mockRejectedValue(new Error("Network down")),
+    });
+
+    const result = await runLogout({ email: "other@example.com", deps });
+
+    expect(result.success).toBe(true);
+    expect(result.revokeFailures).toEqual([{ identity: "antigravity", error: "Network down" }]);
+    expect(savedStore(deps).accounts).toHaveLength(1);
+  });
+
+  it("fails for unknown account without saving", async () => {
+    const deps = createMockDeps();
+
+    const result = await runLogout({ email: "missing@example.com", deps });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("missing@example.com");
+    expect(deps.saveStore).not.toHaveBeenCalled();
+    expect(deps.revokeToken).not.toHaveBeenCalled();
+  });
+
+  it("fails when the requested identity is not stored", async () => {
+    const deps = createMockDeps();
+
+    const result = await runLogout({ email: "other@example.com", identity: "gemini-cli", deps });
+
+    expect(result.success).toBe(false);
+    expect(deps.saveStore).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+
+import { migrateStore, StoreMigrationError, StoreVersionError, STORE_VERSION } from "../migrations.js";
+
+describe("migrations", () => {
+  it("moves the account-level projectId onto identities and adds stable ids", () => {
+    const { store, from } = migrateStore({
+      version: 1,
+      accounts: [
+        {
+          email: "a@b.com",
+          projectId: "shared",
+          antigravity: { refreshToken: "r1" },
+          geminiCli: { refreshToken: "r2", projectId: "own" },
+          addedAt: 1,
+          updatedAt: 2,
+        },
+        { email: "c@d.com", antigravity: { refreshToken: "r3" }, addedAt: 1, updatedAt: 2 },
+      ],
+    });
+
+    expect(from).toBe(1);
+    expect(store.version).toBe(STORE_VERSION);
+    const [first, second] = store.accounts;
+    expect(first).not.toHaveProperty("projectId");
+    expect(first?.antigravity?.projectId).toBe("shared");
+    expect(first?.geminiCli?.projectId).toBe("own");
+    expect(second?.antigravity?.projectId).toBeUndefined();
+    expect(first?.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first?.id).not.toBe(second?.id);
+  });
+
+  it("leaves a current store as it is", () => {
+    const current = { version: 2, accounts: [{ id: "x", email: "a@b.com", addedAt: 1, updatedAt: 1 }] };
+    expect(migrateStore(current)).toEqual({ store: current, from: 2 });
+  });
+
+  it("validates each version", () => {
+    expect(() => migrateStore({ version: 1, accounts: {} })).toThrow(/version 1 store: accounts must be an array/);
+    expect(() => migrateStore({ version: 1, accounts: [{ email: "a@b.com", antigravity: "r1" }] })).toThrow(
+      StoreMigrationError,
+    );
+    expect(() => migrateStore({ version: 2, accounts: [{ email: "a@b.com" }] })).toThrow(/id must be a string/);
+    expect(() =>
+      migrateStore({ version: 2, accounts: [{ id: "x", email: "a@b.com", projectId: "p" }] }),
+    ).toThrow(/account-level projectId/);
+    expect(() => migrateStore({ accounts: [] })).toThrow(/Unknown store version/);
+  });
+
+  it("refuses to downgrade a store from a newer version", () => {
+    expect(() => migrateStore({ version: STORE_VERSION + 1, accounts: [] })).toThrow(StoreVersionError);
+  });
+});
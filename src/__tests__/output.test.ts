@@ -1,10 +1,14 @@
 /**
- * Tests for output formatters (table and json).
+ * Tests for output formatters (table, json, csv/tsv, markdown) and color helpers.
  */
 
 import { describe, it, expect } from "vitest";
 import { renderTable, formatResetTime } from "../output/table.js";
-import { renderJson } from "../output/json.js";
+import { renderJson, JSON_SCHEMA_VERSION } from "../output/json.js";
+import { renderCsv, renderTsv } from "../output/delimited.js";
+import { renderMarkdown } from "../output/markdown.js";
+import { shouldUseColor, parseColorCutoffs, renderBar, remainingStyle } from "../output/color.js";
+import { parseTimeZone } from "../output/time.js";
 import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
 
 describe("renderTable", () => {
@@ -230,7 +234,30 @@ describe("renderTable", () => {
     expect(dataLines[2]).toContain("gemini-2.5-pro");
   });
 
-  it("truncates long email addresses", () => {
+  it("uses configured summary models in the given order", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [
+          { model: "gemini-2.5-pro", remainingPercent: 50, resetTime: "" },
+          { model: "claude-opus-4", remainingPercent: 80, resetTime: "" },
+          { model: "alpha-model", remainingPercent: 90, resetTime: "" },
+        ],
+        fetchedAt: Date.now(),
+      },
+    ];
+    const output = renderTable(reports, [], { summaryModels: ["gemini-2.5-pro", "claude-opus-4"] });
+
+    const summarySection = output.split("Full detail")[0];
+    const dataLines = summarySection.split("\n").filter((l) => l.includes("user@example.com"));
+    expect(dataLines).toHaveLength(2);
+    expect(dataLines[0]).toContain("gemini-2.5-pro");
+    expect(dataLines[1]).toContain("claude-opus-4");
+  });
+
+  it("ellipsizes long email addresses in the middle to fit the width", () => {
     const reports: AccountQuotaReport[] = [
       {
         email: "verylongemailaddress1234567890@example.com",
@@ -240,16 +267,103 @@ describe("renderTable", () => {
         fetchedAt: Date.now(),
       },
     ];
-    const output = renderTable(reports, []);
-    expect(output).toContain("verylongemailaddress1");
+    const output = renderTable(reports, [], { width: 80 });
+    expect(output).toMatch(/verylong\S*…@example\.com/);
     expect(output).not.toContain("verylongemailaddress1234567890@example.com");
     const lines = output.trimEnd().split("\n");
     const borderLengths = new Set(
       lines.filter((line) => line.startsWith("┌") || line.startsWith("└") || line.startsWith("├")).map((line) => line.length)
     );
     const rowLengths = new Set(lines.filter((line) => line.startsWith("│")).map((line) => line.length));
-    expect(borderLengths.size).toBe(1);
-    expect(rowLengths.size).toBe(1);
+    expect(borderLengths).toEqual(new Set([80]));
+    expect(rowLengths).toEqual(new Set([80]));
+  });
+
+  it("keeps full emails without a width limit", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "verylongemailaddress1234567890@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [{ model: "gemini-2.5-pro", remainingPercent: 100, resetTime: "" }],
+        fetchedAt: Date.now(),
+      },
+    ];
+    expect(renderTable(reports, [])).toContain("verylongemailaddress1234567890@example.com");
+  });
+
+  it("drops low-priority columns when shrinking is not enough", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [{ model: "gemini-3.1-pro-preview", remainingPercent: 40, resetTime: "" }],
+        fetchedAt: Date.now(),
+      },
+    ];
+    const output = renderTable(reports, [], { width: 60 });
+    const header = output.split("\n").find((line) => line.includes("Email"))!;
+    expect(header).not.toContain("Identity");
+    expect(header).not.toContain("Reset");
+    expect(header).toContain("Remaining");
+    expect(header).toContain("Status");
+  });
+
+  it("renders one line per account/identity in compact mode", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [
+          { model: "gemini-3.1-pro-preview", remainingPercent: 40, resetTime: "" },
+          { model: "alpha-model", remainingPercent: 90, resetTime: "" },
+        ],
+        fetchedAt: Date.now(),
+      },
+    ];
+    const output = renderTable(reports, [], { compact: true, summaryModels: ["gemini-3.1-pro-preview", "beta"] });
+    const rows = output.split("\n").filter((line) => line.startsWith("│"));
+
+    expect(output).not.toContain("Full detail");
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toContain("gemini-3.1-pro-preview");
+    expect(rows[1]).toMatch(/user@example\.com\s+antigravity\s+40%\s+-\s+OK/);
+    expect(output).not.toContain("alpha-model");
+  });
+
+  it("shows the requested columns in order and sorts rows across accounts", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "a@example.com",
+        identity: "antigravity",
+        projectId: "proj-a",
+        models: [{ model: "alpha-model", remainingPercent: 90, resetTime: "" }],
+        fetchedAt: Date.now(),
+      },
+      {
+        email: "b@example.com",
+        identity: "gemini-cli",
+        projectId: "proj-b",
+        models: [{ model: "beta-model", remainingPercent: 20, resetTime: "" }],
+        fetchedAt: Date.now(),
+      },
+    ];
+    const errors: IdentityError[] = [
+      { email: "c@example.com", identity: "antigravity", error: "boom", needsRelogin: false, isForbidden: false },
+    ];
+    const output = renderTable(reports, errors, {
+      columns: ["model", "remaining", "project", "error"],
+      sort: { key: "remaining", direction: "asc" },
+    });
+    const detail = output.split("Full detail")[1].split("\n").filter((line) => line.startsWith("│"));
+
+    expect(detail[0]).toMatch(/│ Model\s+Remaining\s+Project\s+Error\s+│/);
+    expect(detail[1]).toMatch(/beta-model\s+20%\s+proj-b/);
+    expect(detail[2]).toMatch(/alpha-model\s+90%\s+proj-a/);
+    expect(detail[3]).toMatch(/-\s+-\s+-\s+boom/);
+    expect(output).not.toContain("example.com");
   });
 });
 
@@ -281,12 +395,49 @@ describe("formatResetTime", () => {
     const result = formatResetTime("invalid-date-string");
     expect(result).toBe("invalid-da");
   });
+
+  it("formats absolute times in the requested zone", () => {
+    expect(formatResetTime("2026-01-18T12:05:00Z", { resetFormat: "absolute", timeZone: "UTC" })).toBe(
+      "2026-01-18 12:05 UTC",
+    );
+    expect(formatResetTime("2026-01-18T12:05:00Z", { resetFormat: "absolute", timeZone: "Asia/Tokyo" })).toMatch(
+      /^2026-01-18 21:05 /,
+    );
+  });
+
+  it("shows relative and absolute times together", () => {
+    const futureTime = new Date(Date.now() + 45 * 60 * 1000).toISOString();
+    expect(formatResetTime(futureTime, { resetFormat: "both", timeZone: "UTC" })).toMatch(
+      /^\d+m \(\d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC\)$/,
+    );
+  });
+});
+
+describe("parseTimeZone", () => {
+  it("accepts local, UTC and IANA zones case-insensitively", () => {
+    expect(parseTimeZone("local")).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    expect(parseTimeZone("utc")).toBe("UTC");
+    expect(parseTimeZone("europe/berlin")).toBe("Europe/Berlin");
+  });
+
+  it("rejects unknown zones", () => {
+    expect(parseTimeZone("Mars/Olympus_Mons")).toBeUndefined();
+  });
 });
 
 describe("renderJson", () => {
   it("renders empty array when no reports", () => {
     const output = renderJson([], []);
-    expect(JSON.parse(output)).toEqual({ reports: [], errors: [] });
+    expect(JSON.parse(output)).toMatchObject({ reports: [], errors: [] });
+  });
+
+  it("wraps output in a versioned envelope with applied filters", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    const parsed = JSON.parse(renderJson([], [], { now, filters: { identity: "antigravity", account: undefined } }));
+    expect(parsed.schemaVersion).toBe(JSON_SCHEMA_VERSION);
+    expect(parsed.generatedAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(parsed.tool).toEqual({ name: "usage-google-opencode", version: expect.any(String) });
+    expect(parsed.filters).toEqual({ identity: "antigravity" });
   });
 
   it("renders reports with all fields", () => {
@@ -309,6 +460,30 @@ describe("renderJson", () => {
     expect(parsed.reports[0].models[0].remainingPercent).toBe(85);
   });
 
+  it("adds a normalized reset timestamp and seconds until reset", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [
+          { model: "a", remainingPercent: 85, resetTime: "2026-01-01T02:00:00+01:00" },
+          { model: "b", remainingPercent: 85, resetTime: "" },
+        ],
+        fetchedAt: 0,
+      },
+    ];
+    const now = Date.parse("2026-01-01T00:30:00Z");
+    const parsed = JSON.parse(renderJson(reports, [], { now }));
+
+    expect(parsed.reports[0].models[0]).toMatchObject({
+      resetTime: "2026-01-01T02:00:00+01:00",
+      resetTimeIso: "2026-01-01T01:00:00.000Z",
+      resetInSeconds: 1800,
+    });
+    expect(parsed.reports[0].models[1]).toEqual({ model: "b", remainingPercent: 85, resetTime: "" });
+  });
+
   it("renders errors in output", () => {
     const errors: IdentityError[] = [
       {
@@ -341,3 +516,142 @@ describe("renderJson", () => {
     expect(() => JSON.parse(output)).not.toThrow();
   });
 });
+
+describe("renderCsv / renderTsv", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+  const reports: AccountQuotaReport[] = [
+    {
+      email: "user@example.com",
+      identity: "antigravity",
+      projectId: "proj-1",
+      models: [{ model: "gemini-2.5-pro", remainingPercent: 42, resetTime: "2026-01-01T01:00:00Z" }],
+      fetchedAt: now,
+    },
+  ];
+  const errors: IdentityError[] = [
+    {
+      email: "old@example.com",
+      identity: "gemini-cli",
+      error: 'Token refresh failed: "invalid_grant", revoked',
+      needsRelogin: true,
+      isForbidden: false,
+    },
+  ];
+
+  it("renders a header and one row per model or error", () => {
+    const lines = renderCsv(reports, errors, now).trimEnd().split("\n");
+    expect(lines).toEqual([
+      "email,identity,projectId,model,remainingPercent,resetTime,secondsToReset,status,error",
+      "user@example.com,antigravity,proj-1,gemini-2.5-pro,42,2026-01-01T01:00:00.000Z,3600,ok,",
+      'old@example.com,gemini-cli,,,,,,needs_relogin,"Token refresh failed: ""invalid_grant"", revoked"',
+    ]);
+  });
+
+  it("renders TSV without quoting", () => {
+    const lines = renderTsv(reports, errors, now).trimEnd().split("\n");
+    expect(lines[1].split("\t")).toHaveLength(9);
+    expect(lines[2]).toContain('Token refresh failed: "invalid_grant", revoked');
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("renders summary and full detail tables with a relogin list", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [
+          { model: "gemini-3.1-pro-preview", remainingPercent: 75, resetTime: "" },
+          { model: "alpha|model", remainingPercent: 90, resetTime: "" },
+        ],
+        fetchedAt: Date.now(),
+      },
+    ];
+    const errors: IdentityError[] = [
+      { email: "old@example.com", identity: "gemini-cli", error: "x", needsRelogin: true, isForbidden: false },
+    ];
+
+    const output = renderMarkdown(reports, errors);
+    const [summary, detail] = output.split("### Full detail");
+
+    expect(summary).toContain("### Summary");
+    expect(summary).toContain("| Email | Identity | Model | Remaining | Reset | Status |");
+    expect(summary).toContain("| user@example.com | antigravity | gemini-3.1-pro-preview | 75% | - | OK |");
+    expect(summary).not.toContain("alpha");
+    expect(detail).toContain("| user@example.com | antigravity | alpha\\|model | 90% | - | OK |");
+    expect(detail).toContain("| old@example.com | gemini-cli | - | - | - | Needs relogin |");
+    expect(output).toContain("- `usage-google login --mode gemini-cli --account old@example.com`");
+    expect(output).not.toMatch(/[┌│└]/);
+  });
+
+  it("honors --columns", () => {
+    const reports: AccountQuotaReport[] = [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [{ model: "alpha-model", remainingPercent: 90, resetTime: "" }],
+        fetchedAt: Date.now(),
+      },
+    ];
+
+    const output = renderMarkdown(reports, [], { columns: ["remaining", "model"] });
+    expect(output).toContain("| Remaining | Model |\n| ---: | --- |\n| 90% | alpha-model |");
+  });
+});
+
+describe("color", () => {
+  const reports: AccountQuotaReport[] = [
+    {
+      email: "user@example.com",
+      identity: "antigravity",
+      projectId: "proj-1",
+      models: [
+        { model: "gemini-3.1-pro-preview", remainingPercent: 3, resetTime: "" },
+        { model: "claude-opus-4-6-thinking", remainingPercent: 80, resetTime: "" },
+      ],
+      fetchedAt: Date.now(),
+    },
+  ];
+  const errors: IdentityError[] = [
+    { email: "old@example.com", identity: "gemini-cli", error: "x", needsRelogin: false, isForbidden: true },
+  ];
+  const stripAnsi = (text: string) => text.replace(/\x1b\[\d+m/g, "");
+
+  it("auto-detects color from TTY and NO_COLOR", () => {
+    expect(shouldUseColor("auto", true, {})).toBe(true);
+    expect(shouldUseColor("auto", false, {})).toBe(false);
+    expect(shouldUseColor("auto", true, { NO_COLOR: "1" })).toBe(false);
+    expect(shouldUseColor("always", false, { NO_COLOR: "1" })).toBe(true);
+    expect(shouldUseColor("never", true, {})).toBe(false);
+  });
+
+  it("parses cut points and picks styles", () => {
+    expect(parseColorCutoffs("10, 30")).toEqual({ red: 10, yellow: 30 });
+    expect(parseColorCutoffs("50,20")).toBeUndefined();
+    expect(parseColorCutoffs("abc")).toBeUndefined();
+    expect(remainingStyle(5)).toBe("red");
+    expect(remainingStyle(30)).toBe("yellow");
+    expect(remainingStyle(30, { red: 10, yellow: 25 })).toBe("green");
+    expect(renderBar(50)).toBe("█████░░░░░");
+  });
+
+  it("colors Remaining and Status cells without shifting columns", () => {
+    const plain = renderTable(reports, errors);
+    const colored = renderTable(reports, errors, { color: true });
+
+    expect(plain).not.toContain("\x1b[");
+    expect(colored).toContain("\x1b[31m3%\x1b[39m");
+    expect(colored).toContain("\x1b[32m80%\x1b[39m");
+    expect(colored).toContain("\x1b[33mForbidden");
+    expect(stripAnsi(colored)).toBe(plain);
+  });
+
+  it("adds bar gauges to the Remaining column", () => {
+    const output = renderTable(reports, [], { bars: true });
+    expect(output).toContain("80%  ████████░░");
+    const widths = new Set(output.split("\n").filter((l) => l.startsWith("│")).map((l) => l.length));
+    expect(widths.size).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+
+import { groupByModel } from "../pivot.js";
+import { renderModelPivotTable } from "../output/table.js";
+import type { AccountQuotaReport } from "../commands/status.js";
+
+describe("groupByModel", () => {
+  const reports: AccountQuotaReport[] = [
+    {
+      email: "a@example.com",
+      identity: "antigravity",
+      projectId: "p",
+      models: [
+        { model: "gemini-3.1-pro-preview", remainingPercent: 40, resetTime: "2026-01-01T05:00:00Z" },
+        { model: "claude-opus-4-6-thinking", remainingPercent: 80, resetTime: "" },
+      ],
+      fetchedAt: 0,
+    },
+    {
+      email: "b@example.com",
+      identity: "gemini-cli",
+      projectId: "p",
+      models: [{ model: "gemini-3.1-pro-preview", remainingPercent: 40, resetTime: "2026-01-01T01:00:00Z" }],
+      fetchedAt: 0,
+    },
+    {
+      email: "c@example.com",
+      identity: "antigravity",
+      projectId: "p",
+      models: [{ model: "gemini-3.1-pro-preview", remainingPercent: 90, resetTime: "" }],
+      fetchedAt: 0,
+    },
+  ];
+
+  it("groups by model, best first, with a pooled total", () => {
+    const pools = groupByModel(reports);
+
+    expect(pools.map((pool) => pool.model)).toEqual(["claude-opus-4-6-thinking", "gemini-3.1-pro-preview"]);
+    const gemini = pools[1];
+    // Highest remaining first; ties broken by the sooner reset
+    expect(gemini.entries.map((entry) => entry.email)).toEqual(["c@example.com", "b@example.com", "a@example.com"]);
+    expect(gemini.pooledPercent).toBe(170);
+  });
+
+  it("orders entries (and pools, for a model sort) by a sort spec", () => {
+    const byEmail = groupByModel(reports, { key: "email", direction: "asc" });
+    expect(byEmail[1].entries.map((entry) => entry.email)).toEqual(["a@example.com", "b@example.com", "c@example.com"]);
+
+    const byModelDesc = groupByModel(reports, { key: "model", direction: "desc" });
+    expect(byModelDesc.map((pool) => pool.model)).toEqual(["gemini-3.1-pro-preview", "claude-opus-4-6-thinking"]);
+  });
+
+  it("renders each model once followed by its pooled row", () => {
+    const output = renderModelPivotTable(groupByModel(reports), []);
+    const rows = output.split("\n").filter((line) => line.startsWith("│"));
+
+    expect(rows.filter((row) => row.includes("gemini-3.1-pro-preview"))).toHaveLength(1);
+    expect(rows.filter((row) => row.includes("Pooled"))).toHaveLength(2);
+    expect(output).toMatch(/Pooled \(3\)\s+170%/);
+  });
+});
@@ -2,6 +2,7 @@ import { it, expect, describe } from "vitest";
 
 import {
   ensureProjectId,
+  discoverProjectId,
   LOAD_CODE_ASSIST_ENDPOINTS,
   DEFAULT_PROJECT_ID,
 } from "../google/project.js";
@@ -122,3 +123,39 @@ describe("ensureProjectId", () => {
     expect(result).toBe(DEFAULT_PROJECT_ID);
   });
 });
+
+describe("discoverProjectId", () => {
+  it("reports the endpoint that answered and earlier failed attempts", async () => {
+    // Arrange - sandbox returns 429, prod returns the project
+    const calls: string[] = [];
+    const fakeFetch = async (url: string | URL) => {
+      calls.push(String(url));
+      if (String(url) === LOAD_CODE_ASSIST_ENDPOINTS[0]) {
+        return new Response("", { status: 429 });
+      }
+      return new Response(JSON.stringify({ cloudaicompanionProject: "prod-project" }), { status: 200 });
+    };
+
+    // Act
+    const result = await discoverProjectId({ accessToken: "token", fetchImpl: fakeFetch as typeof fetch });
+
+    // Assert
+    expect(result.projectId).toBe("prod-project");
+    expect(result.source).toBe("discovered");
+    expect(result.endpoint).toBe(LOAD_CODE_ASSIST_ENDPOINTS[1]);
+    expect(result.attempts.map((a) => a.status)).toEqual([429, 200]);
+  });
+
+  it("reports default fallback when nothing is discovered", async () => {
+    // Arrange
+    const { fetch: fakeFetch } = createFakeFetch({}, 500);
+
+    // Act
+    const result = await discoverProjectId({ accessToken: "token", fetchImpl: fakeFetch });
+
+    // Assert
+    expect(result.projectId).toBe(DEFAULT_PROJECT_ID);
+    expect(result.source).toBe("default");
+    expect(result.attempts).toHaveLength(2);
+  });
+});
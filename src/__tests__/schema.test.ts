@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+
+import { runSchema } from "../commands/schema.js";
+import { renderJson, JSON_SCHEMA_VERSION } from "../output/json.js";
+
+describe("runSchema", () => {
+  it("prints the bundled status schema", async () => {
+    const result = await runSchema();
+    const schema = JSON.parse(result.output);
+
+    expect(schema.$schema).toContain("json-schema.org");
+    expect(schema.properties.schemaVersion.const).toBe(JSON_SCHEMA_VERSION);
+  });
+
+  it("describes every top-level field renderJson emits", async () => {
+    const schema = JSON.parse((await runSchema()).output);
+    const output = JSON.parse(renderJson([], [], { forecasts: [] }));
+
+    for (const key of Object.keys(output)) {
+      expect(schema.properties).toHaveProperty(key);
+    }
+    for (const key of schema.required as string[]) {
+      expect(output).toHaveProperty(key);
+    }
+  });
+
+  it("uses injected deps", async () => {
+    const result = await runSchema({ deps: { readSchema: async () => "{}" } });
+    expect(result.output).toBe("{}\n");
+  });
+});
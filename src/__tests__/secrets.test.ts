@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  createHelperBackend,
+  formatHelperInput,
+  parseHelperOutput,
+  SecretBackendError,
+} from "../secrets.js";
+import {
+  decryptStore,
+  encryptStore,
+  getUsageStorePath,
+  loadStore,
+  removeAccount,
+  saveStore,
+  setSecretsBackend,
+  unlockStore,
+} from "../storage.js";
+
+/**
+ * A credential helper keeping secrets in db.json next to itself; `fail`
+ * exits non-zero. Records every call in calls.log.
+ */
+const HELPER_SCRIPT = `
+const fs = require("node:fs");
+const path = require("node:path");
+const action = process.argv[2];
+const db = path.join(__dirname, "db.json");
+let input = "";
+process.stdin.on("data", (chunk) => (input += chunk)).on("end", () => {
+  fs.appendFileSync(path.join(__dirname, "calls.log"), action + "\\n");
+  if (process.env.HELPER_FAIL) { process.stderr.write("vault sealed"); process.exit(1); }
+  const attrs = Object.fromEntries(input.split("\\n").filter(Boolean).map((l) => [l.slice(0, l.indexOf("=")), l.slice(l.indexOf("=") + 1)]));
+  const data = fs.existsSync(db) ? JSON.parse(fs.readFileSync(db, "utf8")) : {};
+  const key = attrs.account + "/" + attrs.identity;
+  if (action === "get" && data[key]) {
+    process.stdout.write(Object.entries(data[key]).map(([k, v]) => k + "=" + v).join("\\n") + "\\n");
+  } else if (action === "store") {
+    data[key] = { refreshToken: attrs.refreshToken, ...(attrs.accessToken ? { accessToken: attrs.accessToken } : {}) };
+  } else if (action === "erase") {
+    delete data[key];
+  }
+  fs.writeFileSync(db, JSON.stringify(data));
+});
+`;
+
+/** Each helper call starts a Node process, which can be slow on a busy machine. */
+const HELPER_TEST_TIMEOUT = 20_000;
+
+/**
+ * Writes the test helper into dir and returns its command line.
+ */
+async function writeTestHelper(dir: string): Promise<string> {
+  const script = join(dir, "helper.cjs");
+  await writeFile(script, HELPER_SCRIPT, "utf8");
+  return `"${process.execPath}" "${script}"`;
+}
+
+describe("secrets", () => {
+  it("formats and parses helper attributes", () => {
+    expect(formatHelperInput({ protocol: "usage-google", account: "a@b.com", accessToken: undefined })).toBe(
+      "protocol=usage-google\naccount=a@b.com\n\n",
+    );
+    expect(() => formatHelperInput({ refreshToken: "a\nb" })).toThrow(SecretBackendError);
+    expect(parseHelperOutput("refreshToken=r=1\naccessToken=a\n\nignored=x\n")).toEqual({
+      refreshToken: "r=1",
+      accessToken: "a",
+    });
+  });
+
+  it("stores, gets and erases secrets through a helper command", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const backend = createHelperBackend(await writeTestHelper(dir));
+      const key = { account: "a@b.com", identity: "antigravity" as const };
+
+      expect(await backend.get(key)).toBeUndefined();
+      await backend.store(key, { refreshToken: "r1", accessToken: "a1" });
+      expect(await backend.get(key)).toEqual({ refreshToken: "r1", accessToken: "a1" });
+      await backend.erase(key);
+      expect(await backend.get(key)).toBeUndefined();
+      expect((await readFile(join(dir, "calls.log"), "utf8")).trim().split("\n")).toEqual([
+        "get",
+        "store",
+        "get",
+        "erase",
+        "get",
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, HELPER_TEST_TIMEOUT);
+
+  it("reports helper failures with their stderr", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      const backend = createHelperBackend(`HELPER_FAIL=1 ${await writeTestHelper(dir)}`);
+      await expect(backend.get({ account: "a@b.com", identity: "gemini-cli" })).rejects.toThrow(
+        /get exited with code 1: vault sealed/,
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, HELPER_TEST_TIMEOUT);
+
+  it("keeps only metadata in the store file once tokens move to a helper", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    try {
+      const command = await writeTestHelper(dir);
+      await saveStore(opts, {
+        version: 2,
+        accounts: [
+          {
+            id: "a-id",
+            email: "a@b.com",
+            antigravity: {
+              refreshToken: "refresh-secret",
+              projectId: "p1",
+              cachedAccessToken: "access-secret",
+              cachedExpiresAt: 5,
+            },
+            geminiCli: { refreshToken: "r2" },
+            addedAt: 1,
+            updatedAt: 1,
+          },
+        ],
+      });
+
+      expect(await setSecretsBackend(opts, { backend: "helper", command })).toBe(1);
+      const onDisk = await readFile(getUsageStorePath(opts), "utf8");
+      expect(onDisk).not.toContain("refresh-secret");
+      expect(onDisk).not.toContain("access-secret");
+      expect(JSON.parse(onDisk).accounts[0].antigravity).toEqual({ projectId: "p1", cachedExpiresAt: 5 });
+      await expect(setSecretsBackend(opts, { backend: "helper", command })).rejects.toThrow(/already kept/);
+
+      const store = await loadStore(opts);
+      expect(store.accounts[0]?.antigravity).toMatchObject({
+        refreshToken: "refresh-secret",
+        cachedAccessToken: "access-secret",
+      });
+
+      // Unchanged tokens aren't stored again; a removed identity is erased
+      await writeFile(join(dir, "calls.log"), "", "utf8");
+      await saveStore(opts, removeAccount(store, "a@b.com", "gemini-cli"));
+      expect((await readFile(join(dir, "calls.log"), "utf8")).trim()).toBe("erase");
+      expect(Object.keys(JSON.parse(await readFile(join(dir, "db.json"), "utf8")))).toEqual(["a@b.com/antigravity"]);
+
+      await setSecretsBackend(opts, undefined);
+      const inline = JSON.parse(await readFile(getUsageStorePath(opts), "utf8"));
+      expect(inline.secrets).toBeUndefined();
+      expect(inline.accounts[0].antigravity.refreshToken).toBe("refresh-secret");
+      expect(JSON.parse(await readFile(join(dir, "db.json"), "utf8"))).toEqual({});
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, HELPER_TEST_TIMEOUT);
+
+  it("hands a refreshed access token to the helper", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    try {
+      const command = await writeTestHelper(dir);
+      await saveStore(opts, {
+        version: 2,
+        accounts: [
+          {
+            id: "a-id",
+            email: "a@b.com",
+            antigravity: { refreshToken: "refresh-secret", cachedAccessToken: "old-access", cachedExpiresAt: 5 },
+            addedAt: 1,
+            updatedAt: 1,
+          },
+        ],
+        secrets: { backend: "helper", command },
+      });
+
+      const store = await loadStore(opts);
+      const account = store.accounts[0]!;
+      await saveStore(opts, {
+        ...store,
+        accounts: [
+          { ...account, antigravity: { ...account.antigravity!, cachedAccessToken: "new-access", cachedExpiresAt: 9 } },
+        ],
+      });
+
+      expect(JSON.parse(await readFile(join(dir, "db.json"), "utf8"))["a@b.com/antigravity"]).toEqual({
+        refreshToken: "refresh-secret",
+        accessToken: "new-access",
+      });
+      expect((await loadStore(opts)).accounts[0]?.antigravity).toEqual({
+        refreshToken: "refresh-secret",
+        cachedAccessToken: "new-access",
+        cachedExpiresAt: 9,
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, HELPER_TEST_TIMEOUT);
+
+  it("keeps tokens in the helper when encrypting and decrypting the store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    try {
+      await saveStore(opts, {
+        version: 2,
+        accounts: [
+          { id: "a-id", email: "a@b.com", antigravity: { refreshToken: "refresh-secret" }, addedAt: 1, updatedAt: 1 },
+        ],
+      });
+      await setSecretsBackend(opts, { backend: "helper", command: await writeTestHelper(dir) });
+
+      await encryptStore(opts, { passphrase: "pw" });
+      unlockStore({ passphrase: "pw" });
+      expect((await loadStore(opts)).accounts[0]?.antigravity?.refreshToken).toBe("refresh-secret");
+      await decryptStore(opts);
+
+      const onDisk = JSON.parse(await readFile(getUsageStorePath(opts), "utf8"));
+      expect(onDisk.secrets.backend).toBe("helper");
+      expect(onDisk.accounts[0].antigravity).toEqual({});
+      expect((await loadStore(opts)).accounts[0]?.antigravity?.refreshToken).toBe("refresh-secret");
+    } finally {
+      unlockStore(undefined);
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, HELPER_TEST_TIMEOUT);
+});
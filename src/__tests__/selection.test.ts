@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+
+import { filterModels, parseColumnList, parseSortSpec, sortModelRows, sortReports } from "../selection.js";
+import type { AccountQuotaReport } from "../commands/status.js";
+
+describe("parseSortSpec", () => {
+  it("parses a key with an optional direction", () => {
+    expect(parseSortSpec("remaining")).toEqual({ key: "remaining", direction: "asc" });
+    expect(parseSortSpec("Reset:DESC")).toEqual({ key: "reset", direction: "desc" });
+  });
+
+  it("rejects unknown keys and directions", () => {
+    expect(parseSortSpec("identity")).toBeUndefined();
+    expect(parseSortSpec("model:up")).toBeUndefined();
+    expect(parseSortSpec("model:asc:desc")).toBeUndefined();
+  });
+});
+
+describe("parseColumnList", () => {
+  it("keeps the given order and drops duplicates", () => {
+    expect(parseColumnList("model, email,model")).toEqual(["model", "email"]);
+  });
+
+  it("rejects empty lists and unknown columns", () => {
+    expect(parseColumnList(" , ")).toBeUndefined();
+    expect(parseColumnList("email,quota")).toBeUndefined();
+  });
+});
+
+describe("model selection", () => {
+  const reports: AccountQuotaReport[] = [
+    {
+      email: "b@example.com",
+      identity: "antigravity",
+      projectId: "p",
+      models: [
+        { model: "gemini-3.1-pro-preview", remainingPercent: 40, resetTime: "2026-01-01T05:00:00Z" },
+        { model: "claude-opus-4-6-thinking", remainingPercent: 80, resetTime: "" },
+      ],
+      fetchedAt: 0,
+    },
+    {
+      email: "a@example.com",
+      identity: "gemini-cli",
+      projectId: "p",
+      models: [{ model: "gemini-2.5-flash", remainingPercent: 10, resetTime: "2026-01-01T01:00:00Z" }],
+      fetchedAt: 0,
+    },
+  ];
+
+  it("filters models by any matching glob and keeps emptied reports", () => {
+    const filtered = filterModels(reports, ["claude-*", "*flash"]);
+
+    expect(filtered.map((report) => report.models.map((model) => model.model))).toEqual([
+      ["claude-opus-4-6-thinking"],
+      ["gemini-2.5-flash"],
+    ]);
+    expect(filterModels(reports, ["gpt-*"]).every((report) => report.models.length === 0)).toBe(true);
+    expect(filterModels(reports, [])).toBe(reports);
+  });
+
+  it("sorts rows across accounts, with unknown reset times last", () => {
+    const byReset = sortModelRows(reports, { key: "reset", direction: "asc" });
+    expect(byReset.map((row) => row.model.model)).toEqual([
+      "gemini-2.5-flash",
+      "gemini-3.1-pro-preview",
+      "claude-opus-4-6-thinking",
+    ]);
+
+    const byRemaining = sortModelRows(reports, { key: "remaining", direction: "desc" });
+    expect(byRemaining.map((row) => row.model.remainingPercent)).toEqual([80, 40, 10]);
+  });
+
+  it("sorts nested reports by their best model", () => {
+    const sorted = sortReports(reports, { key: "remaining", direction: "asc" });
+
+    expect(sorted.map((report) => report.email)).toEqual(["a@example.com", "b@example.com"]);
+    expect(sorted[1].models.map((model) => model.remainingPercent)).toEqual([40, 80]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { createStatusCache, startServe } from "../commands/serve.js";
+import { renderPrometheus } from "../output/prometheus.js";
+import type { StatusResult } from "../commands/status.js";
+import type { JsonOutput } from "../output/json.js";
+
+describe("serve", () => {
+  const statusResult: StatusResult = {
+    reports: [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [
+          { model: "claude-opus-4-6-thinking", remainingPercent: 40, resetTime: "2026-01-01T01:00:00Z" },
+        ],
+        fetchedAt: 0,
+      },
+    ],
+    errors: [
+      { email: "old@example.com", identity: "gemini-cli", error: "invalid_grant", needsRelogin: true, isForbidden: false },
+    ],
+    output: "",
+  };
+
+  it("renders gauges and counters in Prometheus text format", () => {
+    const text = renderPrometheus(
+      {
+        reports: statusResult.reports,
+        errorCounts: [{ email: "old@example.com", identity: "gemini-cli", kind: "needs_relogin", count: 2 }],
+        refreshFailures: 1,
+        lastRefreshAt: 1_700_000_000_000,
+      },
+      Date.parse("2026-01-01T00:00:00Z"),
+    );
+
+    expect(text).toContain("# TYPE usage_google_remaining_percent gauge");
+    expect(text).toContain(
+      'usage_google_remaining_percent{email="user@example.com",identity="antigravity",model="claude-opus-4-6-thinking"} 40',
+    );
+    expect(text).toContain(
+      'usage_google_reset_seconds{email="user@example.com",identity="antigravity",model="claude-opus-4-6-thinking"} 3600',
+    );
+    expect(text).toContain(
+      'usage_google_fetch_errors_total{email="old@example.com",identity="gemini-cli",kind="needs_relogin"} 2',
+    );
+    expect(text).toContain("usage_google_refresh_failures_total 1");
+    expect(text).toContain("usage_google_last_refresh_timestamp_seconds 1700000000");
+  });
+
+  it("escapes label values", () => {
+    const text = renderPrometheus({
+      reports: [{ ...statusResult.reports[0], email: 'we"ird\\name' }],
+      errorCounts: [],
+      refreshFailures: 0,
+    });
+    expect(text).toContain('email="we\\"ird\\\\name"');
+  });
+
+  it("refreshes at most once per interval and accumulates error counters", async () => {
+    let now = 0;
+    const runStatus = vi.fn().mockResolvedValue(statusResult);
+    const cache = createStatusCache({ runStatus, ttlMs: 60_000, now: () => now });
+
+    await Promise.all([cache.get(), cache.get()]);
+    expect(runStatus).toHaveBeenCalledTimes(1);
+
+    now = 30_000;
+    await cache.get();
+    expect(runStatus).toHaveBeenCalledTimes(1);
+
+    now = 60_000;
+    const status = await cache.get();
+    expect(runStatus).toHaveBeenCalledTimes(2);
+    expect(status.errorCounts).toEqual([
+      { email: "old@example.com", identity: "gemini-cli", kind: "needs_relogin", count: 2 },
+    ]);
+  });
+
+  it("keeps previous data when a refresh fails", async () => {
+    let now = 0;
+    const runStatus = vi
+      .fn()
+      .mockResolvedValueOnce(statusResult)
+      .mockRejectedValueOnce(new Error("store unreadable"));
+    const cache = createStatusCache({ runStatus, ttlMs: 1000, now: () => now });
+
+    await cache.get();
+    now = 5000;
+    const status = await cache.get();
+
+    expect(status.reports).toHaveLength(1);
+    expect(status.refreshFailures).toBe(1);
+    expect(status.lastError).toBe("store unreadable");
+  });
+
+  it("serves /metrics over HTTP and 404s elsewhere", async () => {
+    const server = await startServe({
+      port: 0,
+      metrics: true,
+      runStatus: vi.fn().mockResolvedValue(statusResult),
+    });
+    try {
+      const metrics = await fetch(`http://127.0.0.1:${server.port}/metrics`);
+      expect(metrics.status).toBe(200);
+      expect(metrics.headers.get("content-type")).toContain("version=0.0.4");
+      expect(await metrics.text()).toContain("usage_google_remaining_percent");
+
+      const missing = await fetch(`http://127.0.0.1:${server.port}/nope`);
+      expect(missing.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("serves the JSON API in renderJson shape", async () => {
+    const server = await startServe({ port: 0, runStatus: vi.fn().mockResolvedValue(statusResult) });
+    const base = `http://127.0.0.1:${server.port}`;
+    try {
+      const status = await fetch(`${base}/v1/status`);
+      expect(status.status).toBe(200);
+      expect(status.headers.get("cache-control")).toMatch(/max-age=\d+/);
+      const body = (await status.json()) as JsonOutput;
+      expect(body.reports).toHaveLength(1);
+      expect(body.errors).toHaveLength(1);
+
+      const accounts = (await (await fetch(`${base}/v1/accounts`)).json()) as { accounts: unknown[] };
+      expect(accounts.accounts).toEqual([
+        { email: "user@example.com", identities: [{ identity: "antigravity", status: "ok", projectId: "proj-1", fetchedAt: 0 }] },
+        { email: "old@example.com", identities: [{ identity: "gemini-cli", status: "needs_relogin" }] },
+      ]);
+
+      const account = (await (
+        await fetch(`${base}/v1/accounts/${encodeURIComponent("user@example.com")}`)
+      ).json()) as JsonOutput;
+      expect(account.reports).toHaveLength(1);
+      expect(account.errors).toHaveLength(0);
+
+      const model = (await (await fetch(`${base}/v1/models/claude-opus-4-6-thinking`)).json()) as JsonOutput;
+      expect(model.reports[0].models).toHaveLength(1);
+
+      expect((await fetch(`${base}/v1/models/unknown`)).status).toBe(404);
+      expect((await fetch(`${base}/metrics`)).status).toBe(404);
+      expect((await fetch(`${base}/v1/status`, { method: "POST" })).status).toBe(405);
+
+      const malformed = await fetch(`${base}/v1/accounts/%E0`);
+      expect(malformed.status).toBe(400);
+      expect(await malformed.json()).toEqual({ error: "Malformed URL path" });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("requires the bearer token when configured", async () => {
+    const server = await startServe({
+      port: 0,
+      token: "s3cret",
+      runStatus: vi.fn().mockResolvedValue(statusResult),
+    });
+    const url = `http://127.0.0.1:${server.port}/v1/status`;
+    try {
+      const denied = await fetch(url);
+      expect(denied.status).toBe(401);
+      expect(denied.headers.get("www-authenticate")).toBe("Bearer");
+
+      expect((await fetch(url, { headers: { Authorization: "Bearer wrong" } })).status).toBe(401);
+      expect((await fetch(url, { headers: { Authorization: "Bearer s3cret" } })).status).toBe(200);
+    } finally {
+      await server.close();
+    }
+  });
+});
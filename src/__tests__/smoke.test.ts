@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
 import { runCli } from "../cli.js";
+import { appendHistory } from "../history.js";
 
 describe("cli", () => {
   it("prints help for no args", async () => {
@@ -26,4 +31,126 @@ describe("cli", () => {
     expect(res.exitCode).toBe(1);
     expect(res.stderr).toContain("Invalid mode");
   });
+
+  it("logout requires --account", async () => {
+    const res = await runCli(["logout"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("--account");
+  });
+
+  it("rejects unknown accounts subcommand", async () => {
+    const res = await runCli(["accounts", "frobnicate"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Unknown accounts subcommand");
+  });
+
+  it("rejects unknown config subcommand", async () => {
+    const res = await runCli(["config", "frobnicate"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Unknown config subcommand");
+  });
+
+  it("rejects unknown store subcommand", async () => {
+    const res = await runCli(["store", "frobnicate"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Unknown store subcommand");
+  });
+
+  it("rejects an unknown --only identity instead of ignoring it", async () => {
+    const res = await runCli(["logout", "--account", "user@example.com", "--only", "gemini"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Invalid --only value: gemini");
+  });
+
+  it.skipIf(process.platform === "win32")("--all skips the config file's account default", async () => {
+    const home = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const previousHome = process.env.HOME;
+    process.env.HOME = home;
+    try {
+      const configDir = join(home, ".config", "opencode");
+      await mkdir(configDir, { recursive: true });
+      await writeFile(join(configDir, "usage-google-config.json"), JSON.stringify({ account: "a@example.com" }));
+      const reading = { identity: "antigravity" as const, model: "m", remainingPercent: 50, resetTime: "" };
+      await appendHistory({ configDir }, [
+        { ...reading, email: "a@example.com", fetchedAt: Date.now() },
+        { ...reading, email: "b@example.com", fetchedAt: Date.now() },
+      ]);
+
+      const filtered = await runCli(["history", "--format", "json"]);
+      expect(filtered.stdout).toContain("a@example.com");
+      expect(filtered.stdout).not.toContain("b@example.com");
+
+      const all = await runCli(["history", "--format", "json", "--all"]);
+      expect(all.stdout).toContain("a@example.com");
+      expect(all.stdout).toContain("b@example.com");
+    } finally {
+      process.env.HOME = previousHome;
+      await rm(home, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects an unknown --format instead of falling back to table", async () => {
+    const res = await runCli(["status", "--format", "cvs"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stdout).toBe("");
+    expect(res.stderr).toContain("Invalid --format value: cvs");
+  });
+
+  it("rejects unknown import source", async () => {
+    const res = await runCli(["import", "vscode"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Unknown import source");
+  });
+
+  it("status rejects an invalid --color mode", async () => {
+    const res = await runCli(["status", "--color", "sometimes"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Invalid color mode");
+  });
+
+  it("status rejects an invalid --sort or --columns value", async () => {
+    const sort = await runCli(["status", "--sort", "quota:desc"]);
+    expect(sort.exitCode).toBe(1);
+    expect(sort.stderr).toContain("Invalid --sort value");
+
+    const columns = await runCli(["status", "--columns", "email,quota"]);
+    expect(columns.exitCode).toBe(1);
+    expect(columns.stderr).toContain("Invalid --columns value");
+
+    const forecastCsv = await runCli(["status", "--format", "csv", "--columns", "model,burn,exhausts"]);
+    expect(forecastCsv.exitCode).toBe(1);
+    expect(forecastCsv.stderr).toContain("--columns burn,exhausts isn't available with --format csv");
+  });
+
+  it("status rejects an invalid --reset-format or --tz value", async () => {
+    const format = await runCli(["status", "--reset-format", "iso"]);
+    expect(format.exitCode).toBe(1);
+    expect(format.stderr).toContain("Invalid --reset-format value");
+
+    const tz = await runCli(["status", "--tz", "Mars/Olympus_Mons"]);
+    expect(tz.exitCode).toBe(1);
+    expect(tz.stderr).toContain("Invalid --tz value");
+  });
+
+  it("status validates --format template before fetching", async () => {
+    const missing = await runCli(["status", "--format", "template"]);
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toContain("needs --template");
+
+    const invalid = await runCli(["status", "--format", "template", "--template", "{{range .reports}}"]);
+    expect(invalid.exitCode).toBe(1);
+    expect(invalid.stderr).toContain("Invalid template: Missing {{end}}");
+  });
+
+  it("status rejects malformed --fail-below", async () => {
+    const res = await runCli(["status", "--fail-below", "lots"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Invalid --fail-below");
+  });
+
+  it("serve rejects an invalid port", async () => {
+    const res = await runCli(["serve", "--port", "http"]);
+    expect(res.exitCode).toBe(1);
+    expect(res.stderr).toContain("Invalid port");
+  });
 });
@@ -13,13 +13,13 @@ describe("status command", () => {
     return { promise, resolve: resolve!, reject: reject! };
   };
   const mockStore: UsageOpencodeStore = {
-    version: 1,
+    version: 2,
     accounts: [
       {
+        id: "user-id",
         email: "user@example.com",
-        projectId: "test-project",
-        antigravity: { refreshToken: "antigravity-refresh" },
-        geminiCli: { refreshToken: "gemini-refresh" },
+        antigravity: { refreshToken: "antigravity-refresh", projectId: "test-project" },
+        geminiCli: { refreshToken: "gemini-refresh", projectId: "test-project" },
         addedAt: 0,
         updatedAt: 0,
       },
@@ -38,6 +38,8 @@ describe("status command", () => {
       { model: "gemini-3-pro", remainingPercent: 75, resetTime: "2026-01-18T00:00:00Z" },
       { model: "claude-opus-5", remainingPercent: 50, resetTime: "2026-01-18T12:00:00Z" },
     ]),
+    appendHistory: vi.fn().mockResolvedValue(undefined),
+    readHistory: vi.fn().mockResolvedValue([]),
   });
 
   it("loads accounts and fetches quotas for both identities", async () => {
@@ -104,12 +106,12 @@ describe("status command", () => {
 
   it("handles accounts with only antigravity identity", async () => {
     const partialStore: UsageOpencodeStore = {
-      version: 1,
+      version: 2,
       accounts: [
         {
+          id: "partial-id",
           email: "partial@example.com",
-          projectId: "test-project",
-          antigravity: { refreshToken: "antigravity-only" },
+          antigravity: { refreshToken: "antigravity-only", projectId: "test-project" },
           addedAt: 0,
           updatedAt: 0,
         },
@@ -148,7 +150,7 @@ describe("status command", () => {
   });
 
   it("returns empty reports when no accounts exist", async () => {
-    const emptyStore: UsageOpencodeStore = { version: 1, accounts: [] };
+    const emptyStore: UsageOpencodeStore = { version: 2, accounts: [] };
     const deps = createMockDeps();
     deps.loadStore = vi.fn().mockResolvedValue(emptyStore);
 
@@ -160,19 +162,19 @@ describe("status command", () => {
 
   it("filters by account email when specified", async () => {
     const multiStore: UsageOpencodeStore = {
-      version: 1,
+      version: 2,
       accounts: [
         {
+          id: "user1-id",
           email: "user1@example.com",
-          projectId: "project-1",
-          antigravity: { refreshToken: "r1" },
+          antigravity: { refreshToken: "r1", projectId: "project-1" },
           addedAt: 0,
           updatedAt: 0,
         },
         {
+          id: "user2-id",
           email: "user2@example.com",
-          projectId: "project-2",
-          antigravity: { refreshToken: "r2" },
+          antigravity: { refreshToken: "r2", projectId: "project-2" },
           addedAt: 0,
           updatedAt: 0,
         },
@@ -199,17 +201,19 @@ describe("status command", () => {
   it("skips refreshAccessToken when cached token is still valid", async () => {
     const futureExpiry = Math.floor(Date.now() / 1000) + 7200; // 2 hours from now
     const cachedStore: UsageOpencodeStore = {
-      version: 1,
+      version: 2,
       accounts: [
         {
+          id: "cached-id",
           email: "cached@example.com",
-          projectId: "test-project",
           antigravity: {
+            projectId: "test-project",
             refreshToken: "antigravity-refresh",
             cachedAccessToken: "cached-token-ag",
             cachedExpiresAt: futureExpiry,
           },
           geminiCli: {
+            projectId: "test-project",
             refreshToken: "gemini-refresh",
             cachedAccessToken: "cached-token-gc",
             cachedExpiresAt: futureExpiry,
@@ -235,12 +239,13 @@ describe("status command", () => {
   it("refreshes token when cached token is expired", async () => {
     const pastExpiry = Math.floor(Date.now() / 1000) - 60; // expired 1 minute ago
     const expiredStore: UsageOpencodeStore = {
-      version: 1,
+      version: 2,
       accounts: [
         {
+          id: "expired-id",
           email: "expired@example.com",
-          projectId: "test-project",
           antigravity: {
+            projectId: "test-project",
             refreshToken: "antigravity-refresh",
             cachedAccessToken: "old-token",
             cachedExpiresAt: pastExpiry,
@@ -275,12 +280,13 @@ describe("status command", () => {
   it("does not call saveStore when all tokens were cached", async () => {
     const futureExpiry = Math.floor(Date.now() / 1000) + 7200;
     const cachedStore: UsageOpencodeStore = {
-      version: 1,
+      version: 2,
       accounts: [
         {
+          id: "cached-id",
           email: "cached@example.com",
-          projectId: "test-project",
           antigravity: {
+            projectId: "test-project",
             refreshToken: "r1",
             cachedAccessToken: "cached-token",
             cachedExpiresAt: futureExpiry,
@@ -299,4 +305,127 @@ describe("status command", () => {
     // No tokens were refreshed, so no need to update store
     expect(deps.saveStore).not.toHaveBeenCalled();
   });
+
+  it("records successful readings to history", async () => {
+    const deps = createMockDeps();
+    await runStatus({ deps });
+
+    expect(deps.appendHistory).toHaveBeenCalledTimes(1);
+    const entries = (deps.appendHistory as any).mock.calls[0][1];
+    expect(entries).toHaveLength(4);
+    expect(entries[0]).toMatchObject({
+      email: "user@example.com",
+      identity: "antigravity",
+      model: "gemini-3-pro",
+      remainingPercent: 75,
+    });
+  });
+
+  it("skips history when recordHistory is false or history fails", async () => {
+    const deps = createMockDeps();
+    await runStatus({ deps, recordHistory: false });
+    expect(deps.appendHistory).not.toHaveBeenCalled();
+
+    deps.appendHistory = vi.fn().mockRejectedValue(new Error("disk full"));
+    const result = await runStatus({ deps });
+    expect(result.reports).toHaveLength(2);
+  });
+
+  it("adds forecast columns from recorded history", async () => {
+    const deps = createMockDeps();
+    const hourAgo = Date.now() - 60 * 60 * 1000;
+    const resetTime = new Date(Date.now() + 5 * 60 * 60 * 1000).toISOString();
+    deps.readHistory = vi.fn().mockResolvedValue([
+      { email: "user@example.com", identity: "antigravity", model: "gemini-3-pro", remainingPercent: 85, resetTime, fetchedAt: hourAgo },
+      { email: "user@example.com", identity: "antigravity", model: "gemini-3-pro", remainingPercent: 75, resetTime, fetchedAt: Date.now() },
+    ]);
+
+    const result = await runStatus({ deps, forecast: true });
+
+    expect(result.forecasts).toHaveLength(1);
+    expect(result.forecasts![0].ratePerHour).toBeCloseTo(10, 0);
+    expect(result.output).toContain("Burn/h");
+    expect(result.output).toContain("10.0%/h");
+  });
+
+  it("streams ndjson lines as each identity settles, then a summary", async () => {
+    const deps = createMockDeps();
+    const tokenA = createDeferred<{ accessToken: string; expiresAt: number }>();
+    deps.refreshAccessToken = vi
+      .fn()
+      .mockImplementationOnce(() => tokenA.promise)
+      .mockImplementationOnce(() => Promise.reject(new Error("invalid_grant")));
+
+    const lines: string[] = [];
+    const statusPromise = runStatus({ deps, format: "ndjson", onOutput: (chunk) => lines.push(chunk) });
+
+    // gemini-cli fails while antigravity is still pending
+    await vi.waitFor(() => expect(lines).toHaveLength(1));
+    expect(JSON.parse(lines[0])).toMatchObject({ type: "error", error: { identity: "gemini-cli", needsRelogin: true } });
+
+    tokenA.resolve({ accessToken: "token-a", expiresAt: Date.now() / 1000 + 3600 });
+    const result = await statusPromise;
+
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual(["error", "report", "summary"]);
+    expect(JSON.parse(lines[2])).toMatchObject({ schemaVersion: 1, reportCount: 1, errorCount: 1 });
+    expect(result.output).toBe(lines.join(""));
+  });
+
+  it("pivots reports by model when requested", async () => {
+    const deps = createMockDeps();
+    const result = await runStatus({ deps, format: "json", by: "model" });
+
+    const parsed = JSON.parse(result.output);
+    expect(parsed.byModel.map((pool: { model: string }) => pool.model)).toEqual(["claude-opus-5", "gemini-3-pro"]);
+    expect(parsed.byModel[1].pooledPercent).toBe(150);
+  });
+
+  it("filters models by glob after recording the full history", async () => {
+    const deps = createMockDeps();
+    const result = await runStatus({ deps, format: "json", models: ["gemini-*"] });
+
+    expect(result.reports.flatMap((report) => report.models.map((model) => model.model))).toEqual([
+      "gemini-3-pro",
+      "gemini-3-pro",
+    ]);
+    expect((deps.appendHistory as any).mock.calls[0][1]).toHaveLength(4);
+    expect(JSON.parse(result.output).filters).toEqual({ models: ["gemini-*"] });
+  });
+
+  it("sorts JSON reports and their models", async () => {
+    const deps = createMockDeps();
+    const result = await runStatus({ deps, format: "json", sort: { key: "remaining", direction: "asc" } });
+
+    const parsed = JSON.parse(result.output);
+    expect(parsed.reports[0].models.map((model: { model: string }) => model.model)).toEqual([
+      "claude-opus-5",
+      "gemini-3-pro",
+    ]);
+  });
+
+  it("renders a template against the JSON envelope", async () => {
+    const deps = createMockDeps();
+    const result = await runStatus({
+      deps,
+      format: "template",
+      models: ["claude-*"],
+      template: "{{range .reports}}{{.identity}}:{{range .models}}{{percent .remainingPercent}}{{end}} {{end}}{{len .filters.models}}",
+    });
+
+    expect(result.output).toBe("antigravity:50% gemini-cli:50% 1");
+  });
+
+  it("applies --columns and --sort to csv output", async () => {
+    const deps = createMockDeps();
+    const result = await runStatus({
+      deps,
+      format: "csv",
+      sort: { key: "reset", direction: "desc" },
+      columns: ["model", "remaining"],
+    });
+
+    expect(result.output).toBe(
+      "model,remainingPercent\nclaude-opus-5,50\nclaude-opus-5,50\ngemini-3-pro,75\ngemini-3-pro,75\n",
+    );
+  });
 });
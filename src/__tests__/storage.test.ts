@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { mkdtemp, rm, writeFile, readFile } from "node:fs/promises";
-import { tmpdir } from "node:os";
+import { mkdtemp, rm, writeFile, readFile, readdir } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
 import { join } from "node:path";
 
 import {
@@ -8,15 +8,24 @@ import {
   loadStore,
   saveStore,
   upsertAccount,
+  removeAccount,
+  removeStoreBackups,
+  checkStoreFile,
+  encryptStore,
+  decryptStore,
+  getStoreEncryption,
+  unlockStore,
+  mergeStores,
   type UsageOpencodeStore,
 } from "../storage.js";
+import { getLockPath } from "../lock.js";
 
 describe("storage", () => {
-  it("creates store with version 1 by default", async () => {
+  it("creates store with the current version by default", async () => {
     const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
     try {
       const store = await loadStore({ configDir: dir });
-      expect(store.version).toBe(1);
+      expect(store.version).toBe(2);
       expect(store.accounts).toEqual([]);
 
       // Ensure load did not implicitly create a file.
@@ -27,7 +36,7 @@ describe("storage", () => {
   });
 
   it("upserts account by email", () => {
-    const store: UsageOpencodeStore = { version: 1, accounts: [] };
+    const store: UsageOpencodeStore = { version: 2, accounts: [] };
     const next = upsertAccount(store, {
       email: "a@b.com",
       antigravity: { refreshToken: "r1" },
@@ -44,13 +53,41 @@ describe("storage", () => {
     expect(next2.accounts[0]?.geminiCli?.refreshToken).toBe("r2");
   });
 
+  it("removes an identity and drops the account once empty", () => {
+    const store: UsageOpencodeStore = {
+      version: 2,
+      accounts: [
+        {
+          id: "a-id",
+          email: "a@b.com",
+          antigravity: { refreshToken: "r1" },
+          geminiCli: { refreshToken: "r2" },
+          addedAt: 1,
+          updatedAt: 1,
+        },
+      ],
+    };
+
+    const next = removeAccount(store, "a@b.com", "antigravity");
+    expect(next.accounts).toHaveLength(1);
+    expect(next.accounts[0]?.antigravity).toBeUndefined();
+    expect(next.accounts[0]?.geminiCli?.refreshToken).toBe("r2");
+
+    const next2 = removeAccount(next, "a@b.com", "gemini-cli");
+    expect(next2.accounts).toEqual([]);
+
+    expect(removeAccount(store, "a@b.com").accounts).toEqual([]);
+    expect(removeAccount(store, "missing@b.com")).toBe(store);
+  });
+
   it("saves and loads store", async () => {
     const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
     try {
       const store: UsageOpencodeStore = {
-        version: 1,
+        version: 2,
         accounts: [
           {
+            id: "user-id",
             email: "user@example.com",
             antigravity: { refreshToken: "r1" },
             addedAt: 1,
@@ -78,7 +115,7 @@ describe("storage", () => {
       await writeFile(path, "{not valid json", "utf8");
 
       const store = await loadStore({ configDir: dir });
-      expect(store.version).toBe(1);
+      expect(store.version).toBe(2);
       expect(store.accounts).toEqual([]);
     } finally {
       await rm(dir, { recursive: true, force: true });
@@ -89,7 +126,7 @@ describe("storage", () => {
     const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
     try {
       const legacyPath = join(dir, "usage-opencode-accounts.json");
-      const legacyStore: UsageOpencodeStore = {
+      const legacyStore = {
         version: 1,
         accounts: [
           {
@@ -104,7 +141,200 @@ describe("storage", () => {
       await writeFile(legacyPath, JSON.stringify(legacyStore, null, 2), "utf8");
 
       const loaded = await loadStore({ configDir: dir });
-      expect(loaded).toEqual(legacyStore);
+      expect(loaded).toEqual({
+        version: 2,
+        accounts: [{ ...legacyStore.accounts[0], id: expect.any(String) }],
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("checkStoreFile reports permissions and parse health", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    try {
+      expect((await checkStoreFile({ configDir: dir })).exists).toBe(false);
+
+      await saveStore({ configDir: dir }, { version: 2, accounts: [] });
+      const healthy = await checkStoreFile({ configDir: dir });
+      expect(healthy.accountCount).toBe(0);
+      expect(healthy.error).toBeUndefined();
+      if (process.platform !== "win32") expect(healthy.mode).toBe(0o600);
+
+      await writeFile(getUsageStorePath({ configDir: dir }), "{broken", "utf8");
+      expect((await checkStoreFile({ configDir: dir })).error).toBeTruthy();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("encrypts the store and keeps it encrypted across saves once unlocked", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    try {
+      await saveStore(opts, {
+        version: 2,
+        accounts: [
+          { id: "a-id", email: "a@b.com", antigravity: { refreshToken: "refresh-secret" }, addedAt: 1, updatedAt: 1 },
+        ],
+      });
+      expect(await encryptStore(opts, { passphrase: "pw" })).toBe(1);
+      expect((await getStoreEncryption(opts))?.name).toBe("scrypt");
+      expect(await readFile(getUsageStorePath(opts), "utf8")).not.toContain("refresh-secret");
+      await expect(encryptStore(opts, { passphrase: "pw" })).rejects.toThrow(/already encrypted/);
+
+      // Locked: fails instead of returning an empty store a save could clobber
+      await expect(loadStore(opts)).rejects.toThrow(/USAGE_GOOGLE_PASSPHRASE/);
+      expect((await checkStoreFile(opts)).encrypted).toBe(true);
+
+      unlockStore({ passphrase: "pw" });
+      const store = await loadStore(opts);
+      expect(store.accounts[0]?.antigravity?.refreshToken).toBe("refresh-secret");
+      await saveStore(opts, upsertAccount(store, { email: "c@d.com", geminiCli: { refreshToken: "r2" } }));
+      expect(await getStoreEncryption(opts)).toBeDefined();
+      expect((await checkStoreFile(opts)).accountCount).toBe(2);
+
+      expect(await decryptStore(opts)).toBe(2);
+      expect(await getStoreEncryption(opts)).toBeUndefined();
+      expect(JSON.parse(await readFile(getUsageStorePath(opts), "utf8")).accounts).toHaveLength(2);
+    } finally {
+      unlockStore(undefined);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps a save that lands while encrypting the store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    const storePath = getUsageStorePath(opts);
+    try {
+      await saveStore(opts, { version: 2, accounts: [] });
+
+      // Hold the store lock as a live process so encryption waits after loading the store
+      const lockPath = getLockPath(storePath);
+      await writeFile(lockPath, JSON.stringify({ pid: process.ppid, hostname: hostname(), createdAt: Date.now() }));
+      const encrypting = encryptStore(opts, { passphrase: "pw" });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // Another process logs in meanwhile
+      await writeFile(
+        storePath,
+        JSON.stringify({
+          version: 2,
+          accounts: [{ id: "o-id", email: "other@b.com", geminiCli: { refreshToken: "o1" }, addedAt: 1, updatedAt: 1 }],
+        }),
+        "utf8",
+      );
+      await rm(lockPath);
+
+      expect(await encrypting).toBe(1);
+      unlockStore({ passphrase: "pw" });
+      expect((await loadStore(opts)).accounts.map((account) => account.email)).toEqual(["other@b.com"]);
+    } finally {
+      unlockStore(undefined);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("backs up and rewrites an older store, and refuses a newer one", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    const storePath = getUsageStorePath(opts);
+    try {
+      const v1 = JSON.stringify({
+        version: 1,
+        accounts: [{ email: "a@b.com", projectId: "p1", antigravity: { refreshToken: "r1" }, addedAt: 1, updatedAt: 1 }],
+      });
+      await writeFile(storePath, v1, "utf8");
+      expect((await checkStoreFile(opts)).version).toBe(1);
+
+      const store = await loadStore(opts);
+      expect(store.accounts[0]?.antigravity?.projectId).toBe("p1");
+      expect(await readFile(`${storePath}.v1.bak`, "utf8")).toBe(v1);
+      const onDisk = JSON.parse(await readFile(storePath, "utf8"));
+      expect(onDisk.version).toBe(2);
+      expect(onDisk.accounts[0].id).toBe(store.accounts[0]?.id);
+
+      const newer = JSON.stringify({ version: 99, accounts: [] });
+      await writeFile(storePath, newer, "utf8");
+      await expect(loadStore(opts)).rejects.toThrow(/newer usage-google/);
+      expect((await checkStoreFile(opts)).error).toMatch(/newer usage-google/);
+      expect(await readFile(storePath, "utf8")).toBe(newer);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("removes plaintext backups and the legacy store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    const storePath = getUsageStorePath(opts);
+    try {
+      expect(await removeStoreBackups({ configDir: join(dir, "missing") })).toEqual([]);
+
+      await saveStore(opts, { version: 2, accounts: [] });
+      for (const name of ["usage-google-accounts.json.v1.bak", "usage-opencode-accounts.json", "notes.v1.bak"]) {
+        await writeFile(join(dir, name), "{}", "utf8");
+      }
+
+      expect((await removeStoreBackups(opts)).sort()).toEqual([
+        `${storePath}.v1.bak`,
+        join(dir, "usage-opencode-accounts.json"),
+      ]);
+      expect((await readdir(dir)).sort()).toEqual(["notes.v1.bak", "usage-google-accounts.json"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("merges concurrent changes field by field", () => {
+    const base: UsageOpencodeStore = {
+      version: 2,
+      accounts: [{ id: "a-id", email: "a@b.com", antigravity: { refreshToken: "r1" }, addedAt: 1, updatedAt: 1 }],
+    };
+    // This process cached an access token; another one re-logged in and added an account
+    const ours: UsageOpencodeStore = {
+      ...base,
+      accounts: [{ ...base.accounts[0]!, antigravity: { refreshToken: "r1", cachedAccessToken: "a1" } }],
+    };
+    const theirs: UsageOpencodeStore = {
+      ...base,
+      accounts: [
+        { ...base.accounts[0]!, antigravity: { refreshToken: "r2" }, updatedAt: 5 },
+        { id: "c-id", email: "c@d.com", geminiCli: { refreshToken: "r3" }, addedAt: 4, updatedAt: 4 },
+      ],
+    };
+
+    const merged = mergeStores(base, ours, theirs);
+    expect(merged.accounts.map((account) => account.email)).toEqual(["a@b.com", "c@d.com"]);
+    expect(merged.accounts[0]?.antigravity).toEqual({ refreshToken: "r2", cachedAccessToken: "a1" });
+    expect(merged.accounts[0]?.updatedAt).toBe(5);
+
+    // Removals win on either side when the other didn't touch the identity
+    expect(mergeStores(base, { ...base, accounts: [] }, base).accounts).toEqual([]);
+    expect(mergeStores(base, base, { ...base, accounts: [] }).accounts).toEqual([]);
+  });
+
+  it("keeps accounts written by another process since load", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-google-"));
+    const opts = { configDir: dir };
+    try {
+      const store = await loadStore(opts);
+
+      // Another process logs in meanwhile
+      await writeFile(
+        getUsageStorePath(opts),
+        JSON.stringify({
+          version: 2,
+          accounts: [{ id: "o-id", email: "other@b.com", geminiCli: { refreshToken: "o1" }, addedAt: 1, updatedAt: 1 }],
+        }),
+        "utf8",
+      );
+
+      await saveStore(opts, upsertAccount(store, { email: "a@b.com", antigravity: { refreshToken: "r1" } }));
+      const onDisk = JSON.parse(await readFile(getUsageStorePath(opts), "utf8"));
+      expect(onDisk.accounts.map((account: { email: string }) => account.email)).toEqual(["a@b.com", "other@b.com"]);
+      expect(await readdir(dir)).toEqual(["usage-google-accounts.json"]);
     } finally {
       await rm(dir, { recursive: true, force: true });
     }
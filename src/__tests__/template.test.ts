@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+
+import { parseTemplate, renderTemplate, TemplateError } from "../output/template.js";
+
+const data = {
+  reports: [
+    {
+      email: "a@example.com",
+      identity: "antigravity",
+      models: [
+        { model: "claude-opus-4-6-thinking", remainingPercent: 15, resetTime: "2026-01-18T12:00:00Z" },
+        { model: "gemini-3.1-pro-preview", remainingPercent: 80.25, resetTime: "" },
+      ],
+    },
+    { email: "b@example.com", identity: "gemini-cli", models: [] },
+  ],
+  errors: [],
+};
+
+const render = (source: string) => renderTemplate(parseTemplate(source), data, { timeZone: "UTC" });
+
+describe("renderTemplate", () => {
+  it("renders fields inside range blocks", () => {
+    expect(render("{{range .reports}}{{.email}} {{.identity}};{{end}}")).toBe(
+      "a@example.com antigravity;b@example.com gemini-cli;",
+    );
+  });
+
+  it("supports if/else if/else, with and range else", () => {
+    expect(render("{{if .missing}}a{{else if .reports}}b{{else}}c{{end}}")).toBe("b");
+    expect(render("{{range .errors}}x{{else}}no errors{{end}}")).toBe("no errors");
+    expect(render("{{with .missing}}x{{else}}none{{end}}")).toBe("none");
+    expect(render("{{with .reports}}{{len .}}{{end}}")).toBe("2");
+  });
+
+  it("calls helpers with arguments, pipelines and parentheses", () => {
+    expect(
+      render(
+        '{{range .reports}}{{range where "model" "claude-*" .models}}{{.model}} {{percent .remainingPercent}} ' +
+          '{{reset "absolute" .resetTime}}{{end}}{{end}}',
+      ),
+    ).toBe("claude-opus-4-6-thinking 15% 2026-01-18 12:00 UTC");
+    expect(render('{{percent 1 80.25}} {{"x" | upper}} {{join "," (where "identity" "gemini-*" .reports)}}')).toMatch(
+      /^80\.3% X \{"email":"b@example\.com"/,
+    );
+    expect(render("{{if and (lt (len .errors) 1) (eq .reports.x nil)}}ok{{end}}")).toBe("ok");
+    expect(render('{{range $.reports}}{{if gt (len .models) 0}}{{$.errors | len}}{{end}}{{end}}')).toBe("0");
+  });
+
+  it("pipes values into helpers as their last argument", () => {
+    expect(
+      render(
+        '{{range .reports | where "email" "a*"}}{{range .models | where "model" "claude-*"}}' +
+          '{{.remainingPercent | percent 1}} {{.resetTime | reset "absolute"}}{{end}}{{end}}',
+      ),
+    ).toBe("15.0% 2026-01-18 12:00 UTC");
+    expect(render('{{.reports | where "identity" "gemini-*" | len}}')).toBe("1");
+  });
+
+  it("trims whitespace around {{- and -}} and skips comments", () => {
+    expect(render("a  {{- /* note */ -}}\n  b")).toBe("ab");
+    expect(render("{{range .reports -}}\n  {{.email}}\n{{- end}}")).toBe("a@example.comb@example.com");
+  });
+
+  it("rejects malformed templates when parsing", () => {
+    expect(() => parseTemplate("{{range .reports}}{{.email}}")).toThrow("Missing {{end}}");
+    expect(() => parseTemplate("{{end}}")).toThrow(TemplateError);
+    expect(() => parseTemplate("{{shout .email}}")).toThrow('Unknown function "shout"');
+    expect(() => parseTemplate("{{.email")).toThrow("Unclosed action");
+    expect(() => parseTemplate("{{(len .reports}}")).toThrow('Unclosed "("');
+  });
+
+  it("reports runtime errors", () => {
+    expect(() => render("{{range .reports}}{{range .email}}{{end}}{{end}}")).toThrow("range: can't iterate");
+    expect(() => render('{{reset "iso" "2026-01-01"}}')).toThrow('unknown format "iso"');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import { parseThresholdSpec, findThresholdViolations } from "../thresholds.js";
+import { matchesGlob } from "../glob.js";
+import type { AccountQuotaReport } from "../commands/status.js";
+
+describe("thresholds", () => {
+  const reports: AccountQuotaReport[] = [
+    {
+      email: "user@example.com",
+      identity: "antigravity",
+      projectId: "p",
+      models: [
+        { model: "claude-opus-4-6-thinking", remainingPercent: 15, resetTime: "" },
+        { model: "gemini-3.1-pro-preview", remainingPercent: 8, resetTime: "" },
+        { model: "gemini-3.1-flash-image", remainingPercent: 50, resetTime: "" },
+      ],
+      fetchedAt: 0,
+    },
+  ];
+
+  it("matches globs case-insensitively against the whole name", () => {
+    expect(matchesGlob("claude-opus-4-6", "claude-*")).toBe(true);
+    expect(matchesGlob("Claude-Opus", "claude-*")).toBe(true);
+    expect(matchesGlob("gemini-3.1-pro", "gemini-3.?-pro")).toBe(true);
+    expect(matchesGlob("gemini-3x1-pro", "gemini-3.1-pro")).toBe(false);
+    expect(matchesGlob("my-claude", "claude-*")).toBe(false);
+  });
+
+  it("parses global and model-scoped specs", () => {
+    expect(parseThresholdSpec("10")).toEqual({ pattern: undefined, minPercent: 10 });
+    expect(parseThresholdSpec("claude-*:20")).toEqual({ pattern: "claude-*", minPercent: 20 });
+    expect(parseThresholdSpec("abc")).toBeUndefined();
+    expect(parseThresholdSpec("claude-*:")).toBeUndefined();
+    expect(parseThresholdSpec(":20")).toBeUndefined();
+    expect(parseThresholdSpec("120")).toBeUndefined();
+  });
+
+  it("reports models below the applicable threshold", () => {
+    const violations = findThresholdViolations(reports, [{ minPercent: 10 }]);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ model: "gemini-3.1-pro-preview", remainingPercent: 8, minPercent: 10 });
+  });
+
+  it("lets model-scoped rules override the global rule", () => {
+    const violations = findThresholdViolations(reports, [
+      { minPercent: 5 },
+      { pattern: "claude-*", minPercent: 20 },
+    ]);
+
+    expect(violations.map((v) => v.model)).toEqual(["claude-opus-4-6-thinking"]);
+    expect(violations[0].pattern).toBe("claude-*");
+  });
+
+  it("returns nothing without rules", () => {
+    expect(findThresholdViolations(reports, [])).toEqual([]);
+  });
+});
@@ -1,6 +1,6 @@
 import { it, expect } from "vitest";
 
-import { exchangeCode, refreshAccessToken } from "../oauth/token.js";
+import { exchangeCode, refreshAccessToken, revokeToken, OAuthTokenError } from "../oauth/token.js";
 
 it("exchanges code via oauth2.googleapis.com/token", async () => {
   const calls: any[] = [];
@@ -123,3 +123,33 @@ it("uses hardcoded gemini-cli credentials", async () => {
   expect(body).toContain("client_id=681255809395-oo8ft2oprdrnp9e3aqf6av3hmdib135j.apps.googleusercontent.com");
   expect(body).toContain("client_secret=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");
 });
+
+it("revokes token via oauth2.googleapis.com/revoke", async () => {
+  const calls: any[] = [];
+  const fakeFetch = async (url: any, init: any) => {
+    calls.push({ url: String(url), init });
+    return new Response("", { status: 200 });
+  };
+
+  await revokeToken({ token: "rt", fetchImpl: fakeFetch as any });
+
+  expect(calls).toHaveLength(1);
+  expect(calls[0].url).toBe("https://oauth2.googleapis.com/revoke");
+  expect(calls[0].init.method).toBe("POST");
+  expect(String(calls[0].init.body)).toBe("token=rt");
+});
+
+it("treats an already-invalid token as revoked", async () => {
+  const fakeFetch = async () =>
+    new Response(JSON.stringify({ error: "invalid_token" }), { status: 400 });
+
+  await expect(revokeToken({ token: "rt", fetchImpl: fakeFetch as any })).resolves.toBeUndefined();
+});
+
+it("throws OAuthTokenError when revoke fails", async () => {
+  const fakeFetch = async () => new Response("", { status: 503 });
+
+  await expect(revokeToken({ token: "rt", fetchImpl: fakeFetch as any })).rejects.toBeInstanceOf(
+    OAuthTokenError,
+  );
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { runWatch, computeBackoffMs, type WatchDeps } from "../commands/watch.js";
+import type { StatusResult } from "../commands/status.js";
+
+describe("watch mode", () => {
+  const okResult: StatusResult = {
+    reports: [
+      {
+        email: "user@example.com",
+        identity: "antigravity",
+        projectId: "proj-1",
+        models: [{ model: "gemini-3-pro", remainingPercent: 75, resetTime: "" }],
+        fetchedAt: Date.now(),
+      },
+    ],
+    errors: [],
+    output: "rendered-output\n",
+  };
+
+  /**
+   * Builds deps whose sleep aborts the loop after `maxSleeps` calls.
+   */
+  const createMockDeps = (maxSleeps: number, tty = false) => {
+    const controller = new AbortController();
+    const writes: string[] = [];
+    const errors: string[] = [];
+    const sleeps: number[] = [];
+    const deps: WatchDeps = {
+      runStatus: vi.fn().mockResolvedValue(okResult),
+      write: (text) => writes.push(text),
+      writeError: (text) => errors.push(text),
+      sleep: vi.fn().mockImplementation(async (ms: number) => {
+        sleeps.push(ms);
+        if (sleeps.length >= maxSleeps) controller.abort();
+      }),
+      isTTY: () => tty,
+    };
+    return { deps, writes, errors, sleeps, signal: controller.signal };
+  };
+
+  it("computes exponential backoff capped at 15 minutes", () => {
+    expect(computeBackoffMs(60_000, 0)).toBe(60_000);
+    expect(computeBackoffMs(60_000, 1)).toBe(120_000);
+    expect(computeBackoffMs(60_000, 3)).toBe(480_000);
+    expect(computeBackoffMs(60_000, 10)).toBe(900_000);
+    expect(computeBackoffMs(1_200_000, 2)).toBe(1_200_000);
+  });
+
+  it("appends output on each fetch when not a TTY", async () => {
+    const { deps, writes, sleeps, signal } = createMockDeps(2);
+
+    await runWatch({ intervalSeconds: 30, signal, deps });
+
+    expect(deps.runStatus).toHaveBeenCalledTimes(2);
+    expect(writes).toEqual(["rendered-output\n", "rendered-output\n"]);
+    expect(sleeps).toEqual([30_000, 30_000]);
+  });
+
+  it("enforces the minimum interval", async () => {
+    const { deps, sleeps, signal } = createMockDeps(1);
+
+    await runWatch({ intervalSeconds: 1, signal, deps });
+
+    expect(sleeps).toEqual([10_000]);
+  });
+
+  it("redraws in place with countdown ticks on a TTY", async () => {
+    const { deps, writes, sleeps, signal } = createMockDeps(4, true);
+
+    await runWatch({ intervalSeconds: 30, signal, deps });
+
+    // One fetch at 30s interval = 2 ticks of 15s; second fetch aborted after 2 more sleeps
+    expect(deps.runStatus).toHaveBeenCalledTimes(2);
+    expect(sleeps).toEqual([15_000, 15_000, 15_000, 15_000]);
+    expect(writes.every((w) => w.startsWith("\x1b[H\x1b[2J"))).toBe(true);
+    expect(writes[0]).toContain("next refresh in 30s");
+    expect(writes[1]).toContain("next refresh in 15s");
+    expect(writes[0]).toContain("gemini-3-pro");
+  });
+
+  it("redraws with the status table options", async () => {
+    const { deps, writes, signal } = createMockDeps(1, true);
+
+    await runWatch({ status: { columns: ["model", "remaining"], color: true }, intervalSeconds: 10, signal, deps });
+
+    expect(writes[0]).toContain("gemini-3-pro");
+    expect(writes[0]).not.toContain("user@example.com");
+    expect(writes[0]).toContain("\x1b[32m75%");
+  });
+
+  it("reports --fail-below breaches after every fetch", async () => {
+    const { deps, writes, errors, signal } = createMockDeps(2);
+
+    await runWatch({ thresholds: [{ minPercent: 80 }], intervalSeconds: 10, signal, deps });
+
+    expect(writes).toEqual(["rendered-output\n", "rendered-output\n"]);
+    expect(errors).toEqual([
+      "Below threshold: user@example.com antigravity gemini-3-pro 75% < 80%\n",
+      "Below threshold: user@example.com antigravity gemini-3-pro 75% < 80%\n",
+    ]);
+
+    const tty = createMockDeps(1, true);
+    await runWatch({ thresholds: [{ pattern: "gemini-*", minPercent: 90 }], signal: tty.signal, deps: tty.deps });
+    expect(tty.writes[0]).toContain("Below threshold: user@example.com antigravity gemini-3-pro 75% < 90% (gemini-*)");
+  });
+
+  it("backs off after failures and resets after success", async () => {
+    const { deps, writes, sleeps, signal } = createMockDeps(3);
+    deps.runStatus = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce({ reports: [], errors: [{ email: "a", identity: "antigravity", error: "x", needsRelogin: false, isForbidden: false }], output: "all-failed\n" })
+      .mockResolvedValueOnce(okResult);
+
+    await runWatch({ intervalSeconds: 60, signal, deps });
+
+    expect(sleeps).toEqual([120_000, 240_000, 60_000]);
+    expect(writes[0]).toBe("Error: boom\n");
+  });
+
+  it("emits one JSON document per fetch", async () => {
+    const { deps, writes, signal } = createMockDeps(1, true);
+    deps.runStatus = vi.fn().mockResolvedValue({ ...okResult, output: '{"reports":[]}' });
+
+    await runWatch({ status: { format: "json" }, signal, deps });
+
+    expect(writes).toEqual(['{"reports":[]}\n']);
+  });
+});
@@ -1,7 +1,37 @@
-import { runStatus, type OutputFormat } from "./commands/status.js";
+import { readFile } from "node:fs/promises";
+
+import { runStatus, isOutputFormat, OUTPUT_FORMATS, type OutputFormat, type StatusGrouping } from "./commands/status.js";
 import { runLogin, type LoginMode } from "./commands/login.js";
+import { runLogout } from "./commands/logout.js";
+import { runAccounts } from "./commands/accounts.js";
+import { runWatch, MIN_WATCH_INTERVAL_S } from "./commands/watch.js";
+import { runHistory, parseTimeSpec } from "./commands/history.js";
+import { runForecast } from "./commands/forecast.js";
+import { runDoctor } from "./commands/doctor.js";
+import { startServe, MIN_CACHE_SECONDS, DEFAULT_SERVE_HOST } from "./commands/serve.js";
+import { runConfig } from "./commands/config.js";
+import { runSchema } from "./commands/schema.js";
+import {
+  parseThresholdSpec,
+  findThresholdViolations,
+  formatThresholdViolation,
+  type ThresholdRule,
+} from "./thresholds.js";
+import { parseSortSpec, parseColumnList, STATUS_COLUMNS } from "./selection.js";
+import { loadConfig, type UsageGoogleConfig } from "./config.js";
+import { shouldUseColor, parseColorCutoffs, type ColorMode } from "./output/color.js";
+import { isResetFormat, parseTimeZone, RESET_FORMATS, type ResetFormat } from "./output/time.js";
+import { parseTemplate } from "./output/template.js";
+import { unsupportedDelimitedColumns } from "./output/delimited.js";
+import { getStoreEncryption, getUsageStorePath, unlockStore } from "./storage.js";
+import { secretFromEnv, KEY_FILE_ENV, PASSPHRASE_ENV, type StoreSecret } from "./encryption.js";
+import { runStore, promptPassphrase } from "./commands/store.js";
+import { runImport, IMPORT_SOURCES, type ImportSource } from "./commands/import.js";
 import type { QuotaIdentity } from "./oauth/constants.js";
 
+/** Exit code when a model is below a --fail-below threshold. */
+export const EXIT_BELOW_THRESHOLD = 3;
+
 export type CliResult = {
   exitCode: number;
   stdout: string;
@@ -13,44 +43,197 @@ const HELP_TEXT = `usage-google - Check Google Cloud Code quota usage
 Commands:
   login     Connect a Google account (Antigravity and/or Gemini CLI)
   status    Show quota usage for all connected accounts
+  logout    Remove a stored account (or one identity) and revoke its tokens
+  import    Import refresh tokens from Gemini CLI or gcloud ADC credentials
+  accounts  Inspect or manage stored accounts (list, show, remove)
+  history   Show quota readings recorded by previous status runs
+  forecast  Predict per-model burn rate and whether quota lasts until reset
+  doctor    Diagnose the store and each identity's token/project/quota pipeline
+  serve     Run a local HTTP server exposing quota data (JSON API, metrics)
+  config    Show or edit defaults (list, get <key>, set <key> <value>, unset <key>)
+  store     Encrypt or decrypt the credential store, or move tokens to a
+            credential helper (encrypt, decrypt, secrets)
+  schema    Print the JSON Schema for status --format json output
 
 Options:
   --help, -h           Show this help message
-  --format <format>    Output format: table (default) or json
+  --format <format>    Output format: table (default), json, or for status also
+                       csv, tsv, markdown, ndjson (one line per identity as it finishes)
+                       and template
   --only <identity>    Filter to one identity: antigravity or gemini-cli
   --account <email>    Filter to a specific account
+  --all                Ignore the config file's only and account defaults
+                       (all identities and accounts, unless --only/--account is given)
+
+Status Options:
+  --watch              Keep running, refreshing quota periodically (Ctrl+C to stop)
+  --interval <sec>     Refresh interval for --watch (default: 60, minimum: 10)
+  --no-history         Don't record this run in the quota history file
+  --forecast           Add Burn/h and Exhausts columns (from recorded history)
+  --fail-below <spec>  Exit with code 3 if a model is below a remaining %. Repeatable.
+                       <spec> is a percent (10) or model-glob:percent (claude-*:20).
+                       With --watch, breaches are reported on every refresh instead.
+  --color <when>       Color the table: auto (default; TTY without NO_COLOR), always, never
+  --color-cutoffs <r,y>  Remaining % below r is red, below y yellow (default: 20,50)
+  --bars               Add a bar gauge to the Remaining column
+  --compact            One line per account/identity with the summary models only
+  --by <grouping>      Group rows by account (default) or model (best account first,
+                       with a pooled total per model; table and json)
+  --model <glob>       Only show models matching the glob (claude-*). Repeatable.
+  --sort <key[:dir]>   Order rows by remaining, reset, model or email; dir is asc
+                       (default) or desc. ndjson streams unsorted
+  --columns <list>     Columns to show, in order: email, identity, project, model,
+                       remaining, reset, status, error, burn, exhausts
+                       (table, markdown, csv, tsv; burn and exhausts not in csv/tsv)
+  --reset-format <fmt> Show reset times as relative (default, 2h30m), absolute
+                       (2026-01-18 14:00 UTC) or both
+  --tz <zone>          Zone for absolute reset times: local (default), UTC or IANA
+                       (Europe/Berlin)
+  --template <text>    Template for --format template, Go text/template style, over
+                       the same data as --format json. Functions: percent, reset,
+                       where, len, join, upper, lower, eq, ne, lt, le, gt, ge, and,
+                       or, not
+  --template-file <path>  Read the --format template template from a file
+
+History / Forecast Options:
+  --model <name>       Only show readings for this model
+  --since <time>       Start of range: duration back from now (30m, 24h, 7d) or ISO date
+  --until <time>       End of range: duration back from now or ISO date
+  --limit <n>          Show only the newest n readings
 
 Login Options:
   --mode <mode>        Login mode: antigravity, gemini-cli, or both
   --project <id>       GCP project ID for gemini-cli quota (required for gemini-cli)
 
+Import Options:
+  import [gemini|gcloud]  Read ~/.gemini/oauth_creds.json and/or gcloud's
+                       application_default_credentials.json (default: both)
+  --file <path>        Import this credentials file instead (either format)
+
+Serve Options:
+  Endpoints: GET /v1/status, /v1/accounts, /v1/accounts/<email>, /v1/models/<model>
+  --metrics            Also expose Prometheus metrics at /metrics
+  --token <secret>     Require "Authorization: Bearer <secret>" (or USAGE_GOOGLE_SERVE_TOKEN)
+  --host <addr>        Listen address (default: 127.0.0.1)
+  --port <port>        Listen port (default: 9464)
+  --cache-interval <sec>  Minimum seconds between quota refreshes (default: 60, minimum: 10)
+
+Config Keys (CLI flags always override; lists are comma-separated):
+  format               Default --format (table, json, csv, tsv, markdown or ndjson;
+                       not template, which needs --template or --template-file)
+  only                 Default --only identity
+  account              Default --account email
+  summaryModels        Models in the status summary table
+  failBelow            Default --fail-below specs (replaced by any --fail-below flag)
+  color                Default --color (auto, always, never)
+  colorCutoffs         Default --color-cutoffs (e.g. 20,50)
+  resetFormat          Default --reset-format (relative, absolute, both)
+  tz                   Default --tz (local, UTC or an IANA zone)
+
+Store Subcommands:
+  store encrypt        Encrypt the store with a passphrase (prompted, or
+                       USAGE_GOOGLE_PASSPHRASE) or --key-file (created if missing)
+  store decrypt        Rewrite the store as plaintext JSON
+  store secrets helper '<command>'
+                       Keep tokens in a credential helper (run as '<command> get|store|erase'
+                       with key=value lines on stdin); the store keeps only metadata
+  store secrets file   Move tokens back into the store file
+  --key-file <path>    Key file that unlocks an encrypted store (or USAGE_GOOGLE_KEY_FILE).
+                       Accepted by every command; encrypted stores otherwise prompt
+                       for the passphrase on a terminal
+
+Accounts Subcommands (offline, no network calls):
+  accounts list           List stored accounts, identities and token cache state
+  accounts show <email>   Show details for one stored account
+  accounts remove         Same as logout
+
+Logout Options:
+  --account <email>    Account to remove (required)
+  --only <identity>    Remove just this identity instead of the whole account
+  --keep-remote        Only delete local credentials; don't revoke tokens at Google
+
 Examples:
   usage-google status
   usage-google status --format json
+  usage-google status --format csv > quota.csv
+  usage-google status --format markdown
+  usage-google schema
   usage-google status --only antigravity
+  usage-google status --watch --interval 120
+  usage-google status --fail-below 10 --fail-below 'claude-*:20'
+  usage-google status --bars --color-cutoffs 10,30
+  usage-google status --compact
+  usage-google status --by model
+  usage-google status --model 'gemini-*' --sort remaining:asc
+  usage-google status --columns email,model,remaining --format csv
+  usage-google status --reset-format both --tz America/New_York
+  usage-google status --format template --template '{{range .reports}}{{.email}} {{.identity}}{{"\\n"}}{{end}}'
   usage-google login --mode both
   usage-google login --mode gemini-cli --project my-gcp-projectID
   usage-google login --mode both --project my-gcp-projectID
+  usage-google history --model claude-opus-4-6-thinking --since 24h
+  usage-google forecast --account user@example.com
+  usage-google doctor --only gemini-cli
+  usage-google serve --metrics --port 9464
+  usage-google accounts list --format json
+  usage-google config set summaryModels claude-opus-4-6-thinking,gemini-3.1-pro-preview
+  usage-google config set failBelow '10,claude-*:20'
+  usage-google accounts show user@example.com
+  usage-google store encrypt
+  usage-google store secrets helper 'pass-usage-google'
+  USAGE_GOOGLE_PASSPHRASE=... usage-google status --format json
+  usage-google import gemini
+  usage-google import --file ./application_default_credentials.json
+  usage-google logout --account user@example.com
+  usage-google accounts remove --account user@example.com --only gemini-cli
 `;
 
-function parseArgs(argv: string[]): {
+type ParsedArgs = {
   command: string;
+  subcommand?: string;
+  target?: string;
+  value?: string;
   format?: OutputFormat;
   identityFilter?: QuotaIdentity;
   accountFilter?: string;
+  all?: boolean; // Skip the config's only/account defaults
   mode?: string;
   project?: string;
+  keepRemote?: boolean;
+  watch?: boolean;
+  interval?: string;
+  noHistory?: boolean;
+  forecast?: boolean;
+  failBelow?: string[];
+  color?: string;
+  colorCutoffs?: string;
+  bars?: boolean;
+  compact?: boolean;
+  by?: string;
+  sort?: string;
+  columns?: string;
+  resetFormat?: string;
+  tz?: string;
+  template?: string;
+  templateFile?: string;
+  keyFile?: string;
+  file?: string;
+  metrics?: boolean;
+  host?: string;
+  port?: string;
+  cacheInterval?: string;
+  token?: string;
+  model?: string; // Last --model (history/forecast)
+  models?: string[]; // Every --model (status)
+  since?: string;
+  until?: string;
+  limit?: string;
   help?: boolean;
-} {
-  const result: {
-    command: string;
-    format?: OutputFormat;
-    identityFilter?: QuotaIdentity;
-    accountFilter?: string;
-    mode?: string;
-    project?: string;
-    help?: boolean;
-  } = { command: "" };
+  usageError?: string; // First invalid flag value; reported before any command runs
+};
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const result: ParsedArgs = { command: "" };
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
@@ -59,28 +242,163 @@ function parseArgs(argv: string[]): {
       result.help = true;
     } else if (arg === "--format" && argv[i + 1]) {
       const format = argv[++i];
-      if (format === "table" || format === "json") {
+      if (isOutputFormat(format)) {
         result.format = format;
+      } else {
+        result.usageError ??= `Invalid --format value: ${format}. Use one of ${OUTPUT_FORMATS.join(", ")}.`;
       }
     } else if (arg === "--only" && argv[i + 1]) {
       const identity = argv[++i];
       if (identity === "antigravity" || identity === "gemini-cli") {
         result.identityFilter = identity;
+      } else {
+        result.usageError ??= `Invalid --only value: ${identity}. Use antigravity or gemini-cli.`;
       }
     } else if (arg === "--account" && argv[i + 1]) {
       result.accountFilter = argv[++i];
+    } else if (arg === "--all") {
+      result.all = true;
     } else if (arg === "--mode" && argv[i + 1]) {
       result.mode = argv[++i];
     } else if (arg === "--project" && argv[i + 1]) {
       result.project = argv[++i];
+    } else if (arg === "--watch") {
+      result.watch = true;
+    } else if (arg === "--interval" && argv[i + 1]) {
+      result.interval = argv[++i];
+    } else if (arg === "--no-history") {
+      result.noHistory = true;
+    } else if (arg === "--forecast") {
+      result.forecast = true;
+    } else if (arg === "--fail-below" && argv[i + 1]) {
+      result.failBelow = [...(result.failBelow ?? []), argv[++i]];
+    } else if (arg === "--color" && argv[i + 1]) {
+      result.color = argv[++i];
+    } else if (arg === "--color-cutoffs" && argv[i + 1]) {
+      result.colorCutoffs = argv[++i];
+    } else if (arg === "--bars") {
+      result.bars = true;
+    } else if (arg === "--compact") {
+      result.compact = true;
+    } else if (arg === "--by" && argv[i + 1]) {
+      result.by = argv[++i];
+    } else if (arg === "--sort" && argv[i + 1]) {
+      result.sort = argv[++i];
+    } else if (arg === "--columns" && argv[i + 1]) {
+      result.columns = argv[++i];
+    } else if (arg === "--reset-format" && argv[i + 1]) {
+      result.resetFormat = argv[++i];
+    } else if (arg === "--tz" && argv[i + 1]) {
+      result.tz = argv[++i];
+    } else if (arg === "--template" && argv[i + 1]) {
+      result.template = argv[++i];
+    } else if (arg === "--template-file" && argv[i + 1]) {
+      result.templateFile = argv[++i];
+    } else if (arg === "--key-file" && argv[i + 1]) {
+      result.keyFile = argv[++i];
+    } else if (arg === "--file" && argv[i + 1]) {
+      result.file = argv[++i];
+    } else if (arg === "--metrics") {
+      result.metrics = true;
+    } else if (arg === "--host" && argv[i + 1]) {
+      result.host = argv[++i];
+    } else if (arg === "--port" && argv[i + 1]) {
+      result.port = argv[++i];
+    } else if (arg === "--token" && argv[i + 1]) {
+      result.token = argv[++i];
+    } else if (arg === "--cache-interval" && argv[i + 1]) {
+      result.cacheInterval = argv[++i];
+    } else if (arg === "--model" && argv[i + 1]) {
+      result.model = argv[++i];
+      result.models = [...(result.models ?? []), result.model];
+    } else if (arg === "--since" && argv[i + 1]) {
+      result.since = argv[++i];
+    } else if (arg === "--until" && argv[i + 1]) {
+      result.until = argv[++i];
+    } else if (arg === "--limit" && argv[i + 1]) {
+      result.limit = argv[++i];
+    } else if (arg === "--keep-remote") {
+      result.keepRemote = true;
     } else if (!arg.startsWith("-") && !result.command) {
       result.command = arg;
+    } else if (!arg.startsWith("-") && !result.subcommand) {
+      result.subcommand = arg;
+    } else if (!arg.startsWith("-") && !result.target) {
+      result.target = arg;
+    } else if (!arg.startsWith("-") && result.value === undefined) {
+      result.value = arg;
     }
   }
 
   return result;
 }
 
+/** Commands whose flags take defaults from the config file. */
+const CONFIGURABLE_COMMANDS = new Set(["status", "history", "forecast", "doctor", "serve", "accounts"]);
+
+/**
+ * Fills flags the user didn't pass from the config file.
+ * Filters are not applied to `accounts`, which takes the email as a target, or with --all.
+ */
+function applyConfigDefaults(args: ParsedArgs, config: UsageGoogleConfig): void {
+  args.format ??= config.format;
+  if (args.command === "accounts") return;
+  if (!args.all) {
+    args.identityFilter ??= config.only;
+    args.accountFilter ??= config.account;
+  }
+  args.failBelow ??= config.failBelow;
+  args.color ??= config.color;
+  args.colorCutoffs ??= config.colorCutoffs;
+  args.resetFormat ??= config.resetFormat;
+  args.tz ??= config.tz;
+}
+
+/** Commands that read or write the credential store. */
+const STORE_COMMANDS = new Set(["status", "login", "logout", "import", "accounts", "doctor", "serve", "store"]);
+
+/**
+ * Unlocks an encrypted store for this run: --key-file, then the environment,
+ * then a passphrase prompt on a terminal. Without any of them the command
+ * fails later with a hint naming the environment variables.
+ *
+ * @returns An error result if the prompt was cancelled
+ */
+async function unlockStoreForCli(args: ParsedArgs): Promise<CliResult | undefined> {
+  if (args.keyFile) {
+    unlockStore({ keyFile: args.keyFile });
+    return undefined;
+  }
+  if (secretFromEnv()) return undefined;
+
+  const kdf = await getStoreEncryption();
+  if (kdf?.name !== "scrypt" || !process.stdin.isTTY) return undefined;
+  try {
+    unlockStore({ passphrase: await promptPassphrase(`Passphrase for ${getUsageStorePath()}: `) });
+    return undefined;
+  } catch (error) {
+    return { exitCode: 1, stdout: "", stderr: `${error instanceof Error ? error.message : String(error)}\n` };
+  }
+}
+
+/**
+ * Picks the secret for `store encrypt`: --key-file, the environment, or a
+ * passphrase prompted twice on a terminal.
+ */
+async function readNewStoreSecret(args: ParsedArgs): Promise<StoreSecret | string> {
+  if (args.keyFile) return { keyFile: args.keyFile };
+  const fromEnv = secretFromEnv();
+  if (fromEnv) return fromEnv;
+  if (!process.stdin.isTTY) {
+    return `No passphrase available. Set ${PASSPHRASE_ENV}, pass --key-file (or set ${KEY_FILE_ENV}), or run in a terminal.`;
+  }
+
+  const passphrase = await promptPassphrase("New store passphrase: ");
+  if (!passphrase) return "The passphrase must not be empty.";
+  if ((await promptPassphrase("Repeat passphrase: ")) !== passphrase) return "Passphrases do not match.";
+  return { passphrase };
+}
+
 export async function runCli(argv: string[]): Promise<CliResult> {
   const args = parseArgs(argv);
 
@@ -93,23 +411,207 @@ export async function runCli(argv: string[]): Promise<CliResult> {
     };
   }
 
+  // Never guess at a mistyped flag: logout would remove the whole account for a bad --only
+  if (args.usageError) {
+    return { exitCode: 1, stdout: "", stderr: `${args.usageError}\n` };
+  }
+
+  let config: UsageGoogleConfig = {};
+  if (CONFIGURABLE_COMMANDS.has(args.command)) {
+    try {
+      config = await loadConfig();
+    } catch (error) {
+      return {
+        exitCode: 2,
+        stdout: "",
+        stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+      };
+    }
+    applyConfigDefaults(args, config);
+  }
+
+  if (STORE_COMMANDS.has(args.command) && !(args.command === "store" && args.subcommand === "encrypt")) {
+    const failed = await unlockStoreForCli(args);
+    if (failed) return failed;
+  }
+
   // Handle commands
   switch (args.command) {
     case "status": {
+      const thresholds: ThresholdRule[] = [];
+      for (const spec of args.failBelow ?? []) {
+        const rule = parseThresholdSpec(spec);
+        if (!rule) {
+          return {
+            exitCode: 1,
+            stdout: "",
+            stderr: `Invalid --fail-below value: ${spec}. Use a percent (10) or model-glob:percent (claude-*:20).\n`,
+          };
+        }
+        thresholds.push(rule);
+      }
+
+      const colorMode = args.color ?? "auto";
+      if (colorMode !== "auto" && colorMode !== "always" && colorMode !== "never") {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid color mode: ${args.color}. Must be auto, always or never.\n`,
+        };
+      }
+      const colorCutoffs = args.colorCutoffs === undefined ? undefined : parseColorCutoffs(args.colorCutoffs);
+      if (args.colorCutoffs !== undefined && !colorCutoffs) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid --color-cutoffs value: ${args.colorCutoffs}. Use "red,yellow" percents, e.g. 20,50.\n`,
+        };
+      }
+      if (args.by !== undefined && args.by !== "account" && args.by !== "model") {
+        return { exitCode: 1, stdout: "", stderr: `Invalid --by value: ${args.by}. Must be account or model.\n` };
+      }
+      const by = args.by as StatusGrouping | undefined;
+      const sort = args.sort === undefined ? undefined : parseSortSpec(args.sort);
+      if (args.sort !== undefined && !sort) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid --sort value: ${args.sort}. Use remaining, reset, model or email, optionally with :asc or :desc.\n`,
+        };
+      }
+      if (args.resetFormat !== undefined && !isResetFormat(args.resetFormat)) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid --reset-format value: ${args.resetFormat}. Must be ${RESET_FORMATS.join(", ")}.\n`,
+        };
+      }
+      const resetFormat = args.resetFormat as ResetFormat | undefined;
+      const timeZone = args.tz === undefined ? undefined : parseTimeZone(args.tz);
+      if (args.tz !== undefined && !timeZone) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid --tz value: ${args.tz}. Use local, UTC or an IANA zone such as Europe/Berlin.\n`,
+        };
+      }
+      const columns = args.columns === undefined ? undefined : parseColumnList(args.columns);
+      if (args.columns !== undefined && !columns) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid --columns value: ${args.columns}. Choose from ${STATUS_COLUMNS.join(", ")}.\n`,
+        };
+      }
+      const unsupported =
+        (args.format === "csv" || args.format === "tsv") && columns ? unsupportedDelimitedColumns(columns) : [];
+      if (unsupported.length > 0) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `--columns ${unsupported.join(",")} isn't available with --format ${args.format}; use table or markdown.\n`,
+        };
+      }
+      let template = args.template;
+      if (args.template !== undefined || args.templateFile !== undefined || args.format === "template") {
+        const usage = (message: string): CliResult => ({ exitCode: 1, stdout: "", stderr: `${message}\n` });
+        if (args.format !== "template") return usage("--template and --template-file need --format template.");
+        if (args.template !== undefined && args.templateFile !== undefined) {
+          return usage("Use either --template or --template-file, not both.");
+        }
+        if (args.templateFile !== undefined) {
+          try {
+            template = await readFile(args.templateFile, "utf8");
+          } catch (error) {
+            return usage(
+              `Cannot read --template-file ${args.templateFile}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        }
+        if (template === undefined) return usage("--format template needs --template or --template-file.");
+        try {
+          parseTemplate(template);
+        } catch (error) {
+          return usage(`Invalid template: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      const color = shouldUseColor(colorMode as ColorMode, process.stdout.isTTY ?? false);
+      // Fit the table to the terminal; piped output keeps natural widths
+      const width = process.stdout.isTTY ? process.stdout.columns : undefined;
+
+      if (args.watch) {
+        const interval = args.interval === undefined ? undefined : Number(args.interval);
+        if (interval !== undefined && (!Number.isFinite(interval) || interval < MIN_WATCH_INTERVAL_S)) {
+          return {
+            exitCode: 1,
+            stdout: "",
+            stderr: `Invalid interval: ${args.interval}. Must be a number of seconds >= ${MIN_WATCH_INTERVAL_S}.\n`,
+          };
+        }
+
+        // Runs until interrupted (SIGINT/SIGTERM handled in index.ts)
+        await runWatch({
+          intervalSeconds: interval,
+          thresholds,
+          status: {
+            format: args.format,
+            identityFilter: args.identityFilter,
+            accountFilter: args.accountFilter,
+            recordHistory: !args.noHistory,
+            forecast: args.forecast,
+            summaryModels: config.summaryModels,
+            color,
+            colorCutoffs,
+            bars: args.bars,
+            width,
+            compact: args.compact,
+            by,
+            models: args.models,
+            sort,
+            columns,
+            resetFormat,
+            timeZone,
+            template,
+          },
+        });
+        return { exitCode: 0, stdout: "", stderr: "" };
+      }
+
       try {
+        // ndjson is written line by line as identities settle, not returned at the end
+        const streaming = args.format === "ndjson";
         const result = await runStatus({
           format: args.format,
           identityFilter: args.identityFilter,
           accountFilter: args.accountFilter,
+          recordHistory: !args.noHistory,
+          forecast: args.forecast,
+          summaryModels: config.summaryModels,
+          color,
+          colorCutoffs,
+          bars: args.bars,
+          width,
+          compact: args.compact,
+          by,
+          models: args.models,
+          sort,
+          columns,
+          resetFormat,
+          timeZone,
+          template,
+          onOutput: streaming ? (chunk) => process.stdout.write(chunk) : undefined,
         });
 
         // Exit code 0 for success, even if some accounts need relogin
         // Exit code 2 only if ALL accounts failed
+        // Exit code 3 if any model is below a --fail-below threshold
         const allFailed = result.reports.length === 0 && result.errors.length > 0;
+        const violations = findThresholdViolations(result.reports, thresholds);
+        const stderr = violations.map((v) => `${formatThresholdViolation(v)}\n`).join("");
         return {
-          exitCode: allFailed ? 2 : 0,
-          stdout: result.output,
-          stderr: "",
+          exitCode: allFailed ? 2 : violations.length > 0 ? EXIT_BELOW_THRESHOLD : 0,
+          stdout: streaming ? "" : result.output,
+          stderr,
         };
       } catch (error) {
         return {
@@ -166,6 +668,298 @@ export async function runCli(argv: string[]): Promise<CliResult> {
       }
     }
 
+    case "history": {
+      const since = args.since === undefined ? undefined : parseTimeSpec(args.since);
+      const until = args.until === undefined ? undefined : parseTimeSpec(args.until);
+      const limit = args.limit === undefined ? undefined : Number(args.limit);
+      const badTime =
+        args.since !== undefined && since === undefined
+          ? args.since
+          : args.until !== undefined && until === undefined
+            ? args.until
+            : undefined;
+      if (badTime !== undefined) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid time: ${badTime}. Use a duration (30m, 24h, 7d) or an ISO date.\n`,
+        };
+      }
+      if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid limit: ${args.limit}. Must be a positive integer.\n`,
+        };
+      }
+
+      try {
+        const result = await runHistory({
+          accountFilter: args.accountFilter,
+          identityFilter: args.identityFilter,
+          model: args.model,
+          since,
+          until,
+          limit,
+          format: args.format,
+        });
+        return { exitCode: 0, stdout: result.output, stderr: "" };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "serve": {
+      const port = args.port === undefined ? undefined : Number(args.port);
+      if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+        return { exitCode: 1, stdout: "", stderr: `Invalid port: ${args.port}\n` };
+      }
+      const cacheSeconds = args.cacheInterval === undefined ? undefined : Number(args.cacheInterval);
+      if (cacheSeconds !== undefined && (!Number.isFinite(cacheSeconds) || cacheSeconds < MIN_CACHE_SECONDS)) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Invalid cache interval: ${args.cacheInterval}. Must be a number of seconds >= ${MIN_CACHE_SECONDS}.\n`,
+        };
+      }
+
+      const token = args.token ?? process.env.USAGE_GOOGLE_SERVE_TOKEN;
+      const host = args.host ?? DEFAULT_SERVE_HOST;
+      if (!token && host !== "127.0.0.1" && host !== "localhost" && host !== "::1") {
+        console.error(`Warning: listening on ${host} without --token; quota data is readable by anyone who can reach it.`);
+      }
+
+      try {
+        const server = await startServe({
+          host,
+          port,
+          metrics: args.metrics,
+          token,
+          cacheSeconds,
+          status: {
+            identityFilter: args.identityFilter,
+            accountFilter: args.accountFilter,
+            recordHistory: !args.noHistory,
+          },
+        });
+        const base = `http://${server.host}:${server.port}`;
+        console.log(`Serving quota API on ${base}/v1/status (Ctrl+C to stop)`);
+        if (args.metrics) console.log(`Serving Prometheus metrics on ${base}/metrics`);
+
+        // Runs until interrupted (SIGINT/SIGTERM handled in index.ts)
+        await new Promise<never>(() => {});
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "doctor": {
+      try {
+        const result = await runDoctor({
+          accountFilter: args.accountFilter,
+          identityFilter: args.identityFilter,
+          format: args.format,
+        });
+        return { exitCode: result.healthy ? 0 : 1, stdout: result.output, stderr: "" };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "forecast": {
+      try {
+        const result = await runForecast({
+          accountFilter: args.accountFilter,
+          identityFilter: args.identityFilter,
+          model: args.model,
+          format: args.format,
+        });
+        return { exitCode: 0, stdout: result.output, stderr: "" };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "accounts": {
+      if (args.subcommand === "remove") {
+        return runLogoutCommand(args);
+      }
+      if (args.subcommand === "list" || args.subcommand === "show") {
+        const email = args.target ?? args.accountFilter;
+        if (args.subcommand === "show" && !email) {
+          return {
+            exitCode: 1,
+            stdout: "",
+            stderr: "Missing account email. Usage: usage-google accounts show <email>\n",
+          };
+        }
+
+        try {
+          const result = await runAccounts({
+            action: args.subcommand,
+            email,
+            format: args.format,
+          });
+          if (!result.success) {
+            return { exitCode: 1, stdout: "", stderr: `${result.error}\n` };
+          }
+          return { exitCode: 0, stdout: result.output, stderr: "" };
+        } catch (error) {
+          return {
+            exitCode: 2,
+            stdout: "",
+            stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+          };
+        }
+      }
+      return {
+        exitCode: 1,
+        stdout: "",
+        stderr: `Unknown accounts subcommand: ${args.subcommand ?? "(none)"}\nRun 'usage-google --help' for usage.\n`,
+      };
+    }
+
+    case "logout": {
+      return runLogoutCommand(args);
+    }
+
+    case "import": {
+      const source = args.subcommand;
+      if (source !== undefined && !IMPORT_SOURCES.includes(source as ImportSource)) {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Unknown import source: ${source}. Use ${IMPORT_SOURCES.join(" or ")}.\n`,
+        };
+      }
+
+      try {
+        const result = await runImport({
+          sources: source ? [source as ImportSource] : undefined,
+          file: args.file,
+        });
+
+        let stdout = "";
+        let stderr = "";
+        for (const outcome of result.outcomes) {
+          if (outcome.status === "imported") {
+            stdout += `Imported ${outcome.email} (${outcome.identity}) from ${outcome.path}\n`;
+          } else if (outcome.status === "missing") {
+            stderr += `No ${outcome.source} credentials at ${outcome.path}\n`;
+          } else {
+            stderr += `Skipped ${outcome.path}: ${outcome.error}\n`;
+          }
+        }
+        if (!result.success) {
+          stderr += "Nothing imported. Run 'usage-google login' to connect an account.\n";
+        }
+        return { exitCode: result.success ? 0 : 1, stdout, stderr };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "schema": {
+      try {
+        const result = await runSchema();
+        return { exitCode: 0, stdout: result.output, stderr: "" };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "store": {
+      const action = args.subcommand;
+      if (action !== "encrypt" && action !== "decrypt" && action !== "secrets") {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Unknown store subcommand: ${action ?? "(none)"}\nRun 'usage-google --help' for usage.\n`,
+        };
+      }
+
+      try {
+        let secret: StoreSecret | undefined;
+        if (action === "encrypt") {
+          const picked = await readNewStoreSecret(args);
+          if (typeof picked === "string") return { exitCode: 1, stdout: "", stderr: `${picked}\n` };
+          secret = picked;
+        }
+        if (action === "secrets" && !(args.target === "file" || (args.target === "helper" && args.value))) {
+          return {
+            exitCode: 1,
+            stdout: "",
+            stderr: "Usage: usage-google store secrets file | usage-google store secrets helper '<command>'\n",
+          };
+        }
+        const result = await runStore({ action, secret, helper: args.target === "helper" ? args.value : undefined });
+        if (!result.success) {
+          return { exitCode: 1, stdout: "", stderr: `${result.error}\n` };
+        }
+        return { exitCode: 0, stdout: result.output, stderr: "" };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
+    case "config": {
+      const action = args.subcommand ?? "list";
+      if (action !== "list" && action !== "get" && action !== "set" && action !== "unset") {
+        return {
+          exitCode: 1,
+          stdout: "",
+          stderr: `Unknown config subcommand: ${action}\nRun 'usage-google --help' for usage.\n`,
+        };
+      }
+
+      try {
+        const result = await runConfig({
+          action,
+          key: args.target,
+          value: args.value,
+          format: args.format,
+        });
+        if (!result.success) {
+          return { exitCode: 1, stdout: "", stderr: `${result.error}\n` };
+        }
+        return { exitCode: 0, stdout: result.output, stderr: "" };
+      } catch (error) {
+        return {
+          exitCode: 2,
+          stdout: "",
+          stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+        };
+      }
+    }
+
     default: {
       return {
         exitCode: 1,
@@ -175,3 +969,50 @@ export async function runCli(argv: string[]): Promise<CliResult> {
     }
   }
 }
+
+/**
+ * Shared handler for `logout` and `accounts remove`.
+ */
+async function runLogoutCommand(args: ParsedArgs): Promise<CliResult> {
+  if (!args.accountFilter) {
+    return {
+      exitCode: 1,
+      stdout: "",
+      stderr: "Missing --account <email>. Specify which account to remove.\n",
+    };
+  }
+
+  try {
+    const result = await runLogout({
+      email: args.accountFilter,
+      identity: args.identityFilter,
+      keepRemote: args.keepRemote,
+    });
+
+    if (!result.success) {
+      return {
+        exitCode: 1,
+        stdout: "",
+        stderr: `Logout failed: ${result.error}\n`,
+      };
+    }
+
+    const identities = result.identitiesRemoved.join(", ");
+    const stdout =
+      (result.accountRemoved
+        ? `Removed ${result.email} (${identities})\n`
+        : `Removed ${identities} from ${result.email}\n`) +
+      result.backupsRemoved.map((file) => `Deleted plaintext store backup ${file}\n`).join("");
+    const stderr = result.revokeFailures
+      .map((f) => `Warning: could not revoke ${f.identity} token: ${f.error}\n`)
+      .join("");
+
+    return { exitCode: 0, stdout, stderr };
+  } catch (error) {
+    return {
+      exitCode: 2,
+      stdout: "",
+      stderr: `Error: ${error instanceof Error ? error.message : String(error)}\n`,
+    };
+  }
+}
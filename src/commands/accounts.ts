@@ -0,0 +1,144 @@
+/**
+ * Accounts command: offline inspection of the local credential store.
+ * Lists stored accounts/identities without any network calls.
+ */
+
+import type { QuotaIdentity } from "../oauth/constants.js";
+import type { UsageOpencodeStore, UsageOpencodeAccount, UsageOpencodeIdentity } from "../storage.js";
+import { loadStore as defaultLoadStore } from "../storage.js";
+import type { OutputFormat } from "./status.js";
+import { renderAccountsTable, renderAccountDetail } from "../output/table.js";
+import { renderAccountsJson } from "../output/json.js";
+
+/**
+ * State of the cached access token for an identity.
+ * - valid: cached token present and not yet expired
+ * - expired: cached token present but past its expiry
+ * - none: no cached token (next status run will refresh)
+ */
+export type CachedTokenState = "valid" | "expired" | "none";
+
+/**
+ * Where an identity's project ID comes from.
+ * - identity: stored on the identity itself
+ * - none: not stored (discovered at runtime by status)
+ */
+export type ProjectIdSource = "identity" | "none";
+
+/**
+ * Token-free summary of a stored identity.
+ */
+export interface IdentitySummary {
+  identity: QuotaIdentity;
+  projectId?: string;
+  projectIdSource: ProjectIdSource;
+  cachedToken: CachedTokenState;
+  cachedExpiresAt?: number; // Unix seconds
+}
+
+/**
+ * Token-free summary of a stored account.
+ */
+export interface AccountSummary {
+  id: string;
+  email: string;
+  identities: IdentitySummary[];
+  addedAt: number;
+  updatedAt: number;
+}
+
+export interface AccountsDeps {
+  loadStore: (opts?: { configDir?: string }) => Promise<UsageOpencodeStore>;
+}
+
+const defaultDeps: AccountsDeps = {
+  loadStore: defaultLoadStore,
+};
+
+export type AccountsAction = "list" | "show";
+
+export interface AccountsOptions {
+  action: AccountsAction;
+  email?: string; // Required for "show"
+  format?: OutputFormat;
+  configDir?: string;
+  deps?: AccountsDeps;
+}
+
+export interface AccountsResult {
+  success: boolean;
+  error?: string;
+  accounts: AccountSummary[];
+  output: string;
+}
+
+function summarizeIdentity(
+  identity: QuotaIdentity,
+  data: UsageOpencodeIdentity,
+): IdentitySummary {
+  const nowSec = Math.floor(Date.now() / 1000);
+  let cachedToken: CachedTokenState = "none";
+  if (data.cachedAccessToken && data.cachedExpiresAt) {
+    cachedToken = data.cachedExpiresAt > nowSec ? "valid" : "expired";
+  }
+
+  const projectIdSource: ProjectIdSource = data.projectId ? "identity" : "none";
+
+  return {
+    identity,
+    projectId: data.projectId,
+    projectIdSource,
+    cachedToken,
+    cachedExpiresAt: data.cachedAccessToken ? data.cachedExpiresAt : undefined,
+  };
+}
+
+/**
+ * Builds a token-free summary of a stored account.
+ */
+export function summarizeAccount(account: UsageOpencodeAccount): AccountSummary {
+  const identities: IdentitySummary[] = [];
+  if (account.antigravity) {
+    identities.push(summarizeIdentity("antigravity", account.antigravity));
+  }
+  if (account.geminiCli) {
+    identities.push(summarizeIdentity("gemini-cli", account.geminiCli));
+  }
+
+  return {
+    email: account.email,
+    id: account.id,
+    identities,
+    addedAt: account.addedAt,
+    updatedAt: account.updatedAt,
+  };
+}
+
+/**
+ * Main accounts command implementation.
+ */
+export async function runAccounts(options: AccountsOptions): Promise<AccountsResult> {
+  const deps = options.deps ?? defaultDeps;
+  const format = options.format ?? "table";
+
+  const store = await deps.loadStore({ configDir: options.configDir });
+  const accounts = store.accounts.map(summarizeAccount);
+
+  if (options.action === "show") {
+    const account = accounts.find((a) => a.email === options.email);
+    if (!account) {
+      return {
+        success: false,
+        error: `No stored account for ${options.email}`,
+        accounts: [],
+        output: "",
+      };
+    }
+
+    const output = format === "json" ? renderAccountsJson([account]) : renderAccountDetail(account);
+    return { success: true, accounts: [account], output };
+  }
+
+  const output = format === "json" ? renderAccountsJson(accounts) : renderAccountsTable(accounts);
+  return { success: true, accounts, output };
+}
@@ -0,0 +1,106 @@
+/**
+ * Config command: reads and edits the user config file (defaults for
+ * format, filters, summary models and thresholds). Values are validated
+ * before they are written, so a bad `set` never corrupts the file.
+ */
+
+import {
+  loadConfig as defaultLoadConfig,
+  saveConfig as defaultSaveConfig,
+  getConfigPath,
+  isConfigKey,
+  parseConfigValue,
+  formatConfigValue,
+  CONFIG_KEYS,
+  type UsageGoogleConfig,
+} from "../config.js";
+import type { OutputFormat } from "./status.js";
+import { renderConfigTable } from "../output/table.js";
+import { renderConfigJson } from "../output/json.js";
+
+export interface ConfigDeps {
+  loadConfig: (opts?: { configDir?: string }) => Promise<UsageGoogleConfig>;
+  saveConfig: (opts: { configDir?: string } | undefined, config: UsageGoogleConfig) => Promise<void>;
+}
+
+const defaultDeps: ConfigDeps = {
+  loadConfig: defaultLoadConfig,
+  saveConfig: defaultSaveConfig,
+};
+
+export type ConfigAction = "list" | "get" | "set" | "unset";
+
+export interface ConfigOptions {
+  action: ConfigAction;
+  key?: string; // Required for get/set/unset
+  value?: string; // Required for set
+  format?: OutputFormat;
+  configDir?: string;
+  deps?: ConfigDeps;
+}
+
+export interface ConfigResult {
+  success: boolean;
+  error?: string;
+  config: UsageGoogleConfig;
+  output: string;
+}
+
+/**
+ * Main config command implementation.
+ */
+export async function runConfig(options: ConfigOptions): Promise<ConfigResult> {
+  const deps = options.deps ?? defaultDeps;
+  const format = options.format ?? "table";
+  const configPath = getConfigPath({ configDir: options.configDir });
+
+  const config = await deps.loadConfig({ configDir: options.configDir });
+
+  if (options.action === "list") {
+    const output =
+      format === "json" ? renderConfigJson(configPath, config) : renderConfigTable(configPath, config);
+    return { success: true, config, output };
+  }
+
+  const key = options.key;
+  if (!key || !isConfigKey(key)) {
+    return {
+      success: false,
+      error: `${key ? `Unknown config key: ${key}` : "Missing config key"}. Valid keys: ${CONFIG_KEYS.join(", ")}`,
+      config,
+      output: "",
+    };
+  }
+
+  if (options.action === "get") {
+    const value = config[key];
+    const output =
+      format === "json"
+        ? JSON.stringify({ [key]: value ?? null }, null, 2)
+        : value === undefined
+          ? ""
+          : `${formatConfigValue(value)}\n`;
+    return { success: true, config, output };
+  }
+
+  if (options.action === "unset") {
+    const { [key]: _removed, ...rest } = config;
+    await deps.saveConfig({ configDir: options.configDir }, rest);
+    return { success: true, config: rest, output: `Unset ${key}\n` };
+  }
+
+  if (options.value === undefined) {
+    return { success: false, error: `Missing value for ${key}`, config, output: "" };
+  }
+
+  let value: UsageGoogleConfig[typeof key];
+  try {
+    value = parseConfigValue(key, options.value);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error), config, output: "" };
+  }
+
+  const updated: UsageGoogleConfig = { ...config, [key]: value };
+  await deps.saveConfig({ configDir: options.configDir }, updated);
+  return { success: true, config: updated, output: `Set ${key} = ${formatConfigValue(value)}\n` };
+}
@@ -0,0 +1,351 @@
+/**
+ * Doctor command: walks every stored identity through the status pipeline
+ * step by step (token refresh, project discovery, userinfo, quota fetch),
+ * reporting timings, HTTP statuses and remediation hints.
+ */
+
+import type { QuotaIdentity } from "../oauth/constants.js";
+import type { UsageOpencodeStore, UsageOpencodeIdentity, StoreFileHealth } from "../storage.js";
+import { loadStore as defaultLoadStore, checkStoreFile as defaultCheckStoreFile } from "../storage.js";
+import { STORE_VERSION } from "../migrations.js";
+import { KEY_FILE_ENV, PASSPHRASE_ENV } from "../encryption.js";
+import { refreshAccessToken as defaultRefreshAccessToken } from "../oauth/token.js";
+import { discoverProjectId as defaultDiscoverProjectId, type ProjectDiscovery } from "../google/project.js";
+import { fetchUserEmail as defaultFetchUserEmail } from "../google/userinfo.js";
+import { fetchQuota as defaultFetchQuota, type ModelQuota } from "../google/quota.js";
+import type { OutputFormat } from "./status.js";
+import { renderDoctorReport } from "../output/table.js";
+import { renderDoctorJson } from "../output/json.js";
+
+export type CheckLevel = "ok" | "warn" | "fail" | "skip";
+
+/**
+ * Result of a single diagnostic step.
+ */
+export interface DoctorCheck {
+  name: string;
+  level: CheckLevel;
+  detail: string;
+  durationMs?: number;
+  httpStatus?: number;
+  hint?: string;
+}
+
+/**
+ * Diagnostic results for one account + identity.
+ */
+export interface IdentityDiagnosis {
+  email: string;
+  identity: QuotaIdentity;
+  checks: DoctorCheck[];
+}
+
+export interface DoctorDeps {
+  loadStore: (opts?: { configDir?: string }) => Promise<UsageOpencodeStore>;
+  checkStoreFile: (opts?: { configDir?: string }) => Promise<StoreFileHealth>;
+  refreshAccessToken: (input: {
+    identity: QuotaIdentity;
+    refreshToken: string;
+  }) => Promise<{ accessToken: string; expiresAt: number }>;
+  discoverProjectId: (input: { accessToken: string; projectId?: string }) => Promise<ProjectDiscovery>;
+  fetchUserEmail: (input: { accessToken: string }) => Promise<string>;
+  fetchQuota: (input: {
+    accessToken: string;
+    projectId: string;
+    identity?: QuotaIdentity;
+  }) => Promise<ModelQuota[]>;
+}
+
+const defaultDeps: DoctorDeps = {
+  loadStore: defaultLoadStore,
+  checkStoreFile: defaultCheckStoreFile,
+  refreshAccessToken: defaultRefreshAccessToken,
+  discoverProjectId: defaultDiscoverProjectId,
+  fetchUserEmail: defaultFetchUserEmail,
+  fetchQuota: defaultFetchQuota,
+};
+
+export interface DoctorOptions {
+  accountFilter?: string;
+  identityFilter?: QuotaIdentity;
+  format?: OutputFormat;
+  configDir?: string;
+  deps?: DoctorDeps;
+}
+
+export interface DoctorResult {
+  healthy: boolean; // No check failed
+  store: DoctorCheck[];
+  identities: IdentityDiagnosis[];
+  output: string;
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" && status > 0 ? status : undefined;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    const oauthError = (error as { error?: string }).error;
+    return oauthError ? `${error.message} (${oauthError})` : error.message;
+  }
+  return String(error);
+}
+
+/**
+ * Runs a step and records its duration and outcome.
+ */
+async function timed<T>(fn: () => Promise<T>): Promise<{ value?: T; error?: unknown; durationMs: number }> {
+  const startedAt = Date.now();
+  try {
+    const value = await fn();
+    return { value, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return { error, durationMs: Date.now() - startedAt };
+  }
+}
+
+/**
+ * Checks store file existence, permissions and parse health.
+ */
+function diagnoseStore(health: StoreFileHealth): DoctorCheck[] {
+  if (!health.exists) {
+    return [
+      {
+        name: "Store file",
+        level: "warn",
+        detail: `Not found at ${health.path}`,
+        hint: "Run `usage-google login` to add an account.",
+      },
+    ];
+  }
+
+  const checks: DoctorCheck[] = [];
+  if (health.mode !== undefined && (health.mode & 0o077) !== 0) {
+    checks.push({
+      name: "Permissions",
+      level: "warn",
+      detail: `Mode ${health.mode.toString(8)} allows access by other users`,
+      hint: `Restrict it with: chmod 600 ${health.path}`,
+    });
+  } else {
+    checks.push({
+      name: "Permissions",
+      level: "ok",
+      detail: health.mode !== undefined ? `Mode ${health.mode.toString(8)}` : "Not checked on this platform",
+    });
+  }
+
+  if (health.error) {
+    checks.push({
+      name: "Parse",
+      level: "fail",
+      detail: health.error,
+      hint: health.encrypted
+        ? `Set ${PASSPHRASE_ENV} or ${KEY_FILE_ENV} (or run interactively) to unlock ${health.path}.`
+        : health.version !== undefined && health.version > STORE_VERSION
+          ? "Upgrade usage-google to read this store; don't remove it."
+          : `Fix or remove ${health.path}, then run \`usage-google login\` again.`,
+    });
+  } else {
+    const notes = [
+      ...(health.encrypted ? ["encrypted"] : []),
+      ...(health.version !== undefined && health.version < STORE_VERSION
+        ? [`version ${health.version}, migrated on next load`]
+        : []),
+    ];
+    checks.push({
+      name: "Parse",
+      level: "ok",
+      detail: `${health.accountCount} account(s) at ${health.path}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Walks a single identity through the full status pipeline.
+ */
+async function diagnoseIdentity(
+  email: string,
+  identity: QuotaIdentity,
+  identityData: UsageOpencodeIdentity,
+  deps: DoctorDeps,
+): Promise<IdentityDiagnosis> {
+  const checks: DoctorCheck[] = [];
+  const relogin = `usage-google login --mode ${identity}`;
+  const skip = (...names: string[]) => {
+    for (const name of names) {
+      checks.push({ name, level: "skip", detail: "Skipped (previous step failed)" });
+    }
+  };
+
+  // 1. Token refresh (always exercised, even if a cached token is still valid)
+  const refresh = await timed(() =>
+    deps.refreshAccessToken({ identity, refreshToken: identityData.refreshToken }),
+  );
+  if (!refresh.value) {
+    const message = errorMessage(refresh.error);
+    const status = errorStatus(refresh.error);
+    checks.push({
+      name: "Token refresh",
+      level: "fail",
+      detail: message,
+      durationMs: refresh.durationMs,
+      httpStatus: status,
+      hint: message.includes("invalid_grant")
+        ? `Refresh token was revoked or expired. Run: ${relogin}`
+        : status === undefined
+          ? "Could not reach oauth2.googleapis.com. Check network/proxy settings."
+          : `Google rejected the refresh request. Try: ${relogin}`,
+    });
+    skip("Project discovery", "User info", "Quota fetch");
+    return { email, identity, checks };
+  }
+  checks.push({
+    name: "Token refresh",
+    level: "ok",
+    detail: "Access token issued",
+    durationMs: refresh.durationMs,
+  });
+  const accessToken = refresh.value.accessToken;
+
+  // 2. Project discovery
+  const discovery = await timed(() => deps.discoverProjectId({ accessToken, projectId: identityData.projectId }));
+  if (!discovery.value) {
+    checks.push({
+      name: "Project discovery",
+      level: "fail",
+      detail: errorMessage(discovery.error),
+      durationMs: discovery.durationMs,
+      httpStatus: errorStatus(discovery.error),
+    });
+    skip("User info", "Quota fetch");
+    return { email, identity, checks };
+  }
+  const project = discovery.value;
+  const attemptSummary = project.attempts
+    .map((a) => `${new URL(a.endpoint).host} → ${a.status !== undefined ? `HTTP ${a.status}` : a.error}`)
+    .join("; ");
+  if (project.source === "default") {
+    checks.push({
+      name: "Project discovery",
+      level: "warn",
+      detail: `No project discovered, using default ${project.projectId}${attemptSummary ? ` (${attemptSummary})` : ""}`,
+      durationMs: discovery.durationMs,
+      hint:
+        identity === "gemini-cli"
+          ? `Store your own GCP project: ${relogin} --project <gcp-project-id>`
+          : "The shared default project may not carry quota for this account.",
+    });
+  } else {
+    checks.push({
+      name: "Project discovery",
+      level: "ok",
+      detail:
+        project.source === "stored"
+          ? `Using stored project ${project.projectId}`
+          : `Discovered ${project.projectId} via ${new URL(project.endpoint!).host}`,
+      durationMs: discovery.durationMs,
+    });
+  }
+
+  // 3. User info (confirms the token belongs to the stored email)
+  const userInfo = await timed(() => deps.fetchUserEmail({ accessToken }));
+  if (userInfo.value === undefined) {
+    checks.push({
+      name: "User info",
+      level: "fail",
+      detail: errorMessage(userInfo.error),
+      durationMs: userInfo.durationMs,
+      httpStatus: errorStatus(userInfo.error),
+      hint: `Token may lack the userinfo.email scope. Run: ${relogin}`,
+    });
+  } else if (userInfo.value !== email) {
+    checks.push({
+      name: "User info",
+      level: "warn",
+      detail: `Token belongs to ${userInfo.value}, stored under ${email}`,
+      durationMs: userInfo.durationMs,
+      hint: `Remove the mismatched identity and log in again: usage-google logout --account ${email} --only ${identity}`,
+    });
+  } else {
+    checks.push({ name: "User info", level: "ok", detail: userInfo.value, durationMs: userInfo.durationMs });
+  }
+
+  // 4. Quota fetch
+  const quota = await timed(() => deps.fetchQuota({ accessToken, projectId: project.projectId, identity }));
+  if (!quota.value) {
+    const status = errorStatus(quota.error);
+    checks.push({
+      name: "Quota fetch",
+      level: "fail",
+      detail: errorMessage(quota.error),
+      durationMs: quota.durationMs,
+      httpStatus: status,
+      hint:
+        status === 403
+          ? `Project ${project.projectId} is not enabled for Code Assist for this account. ` +
+            (identity === "gemini-cli"
+              ? `Re-login with a project that has Gemini for Cloud enabled: ${relogin} --project <gcp-project-id>`
+              : "Make sure the account has Antigravity access.")
+          : status === undefined
+            ? "Could not reach cloudcode-pa.googleapis.com. Check network/proxy settings."
+            : "The Cloud Code API returned an error; retry later.",
+    });
+  } else if (quota.value.length === 0) {
+    checks.push({
+      name: "Quota fetch",
+      level: "warn",
+      detail: "Request succeeded but no gemini/claude/image models were returned",
+      durationMs: quota.durationMs,
+    });
+  } else {
+    checks.push({
+      name: "Quota fetch",
+      level: "ok",
+      detail: `${quota.value.length} model(s)`,
+      durationMs: quota.durationMs,
+    });
+  }
+
+  return { email, identity, checks };
+}
+
+/**
+ * Main doctor command implementation.
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorResult> {
+  const deps = options.deps ?? defaultDeps;
+  const format = options.format ?? "table";
+
+  const health = await deps.checkStoreFile({ configDir: options.configDir });
+  const storeChecks = diagnoseStore(health);
+  // A locked, newer or invalid store has no identities to walk; its Parse check already fails
+  const store: UsageOpencodeStore = health.error
+    ? { version: STORE_VERSION, accounts: [] }
+    : await deps.loadStore({ configDir: options.configDir });
+
+  const tasks: Array<Promise<IdentityDiagnosis>> = [];
+  for (const account of store.accounts) {
+    if (options.accountFilter && account.email !== options.accountFilter) continue;
+
+    if (account.antigravity && (!options.identityFilter || options.identityFilter === "antigravity")) {
+      tasks.push(diagnoseIdentity(account.email, "antigravity", account.antigravity, deps));
+    }
+    if (account.geminiCli && (!options.identityFilter || options.identityFilter === "gemini-cli")) {
+      tasks.push(diagnoseIdentity(account.email, "gemini-cli", account.geminiCli, deps));
+    }
+  }
+  const identities = await Promise.all(tasks);
+
+  const healthy = [...storeChecks, ...identities.flatMap((d) => d.checks)].every((c) => c.level !== "fail");
+  const output =
+    format === "json"
+      ? renderDoctorJson(healthy, storeChecks, identities)
+      : renderDoctorReport(healthy, storeChecks, identities);
+
+  return { healthy, store: storeChecks, identities, output };
+}
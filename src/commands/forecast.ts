@@ -0,0 +1,75 @@
+/**
+ * Forecast command: estimates per-model burn rate from recorded history and
+ * predicts whether each quota runs out before it resets.
+ */
+
+import type { QuotaIdentity } from "../oauth/constants.js";
+import {
+  readHistory as defaultReadHistory,
+  HISTORY_RETENTION_MS,
+  type QuotaHistoryEntry,
+  type QuotaHistoryQuery,
+} from "../history.js";
+import { computeForecasts, type ModelForecast } from "../forecast.js";
+import type { OutputFormat } from "./status.js";
+import { renderForecastTable } from "../output/table.js";
+import { renderForecastJson } from "../output/json.js";
+
+export interface ForecastDeps {
+  readHistory: (opts: { configDir?: string } | undefined, query?: QuotaHistoryQuery) => Promise<QuotaHistoryEntry[]>;
+}
+
+const defaultDeps: ForecastDeps = {
+  readHistory: defaultReadHistory,
+};
+
+export interface ForecastOptions {
+  accountFilter?: string;
+  identityFilter?: QuotaIdentity;
+  model?: string;
+  format?: OutputFormat;
+  configDir?: string;
+  deps?: ForecastDeps;
+}
+
+export interface ForecastResult {
+  forecasts: ModelForecast[];
+  output: string;
+}
+
+/**
+ * Sorts forecasts so the most urgent come first: exhausting before reset
+ * (soonest first), then by lowest remaining quota.
+ */
+function sortByUrgency(forecasts: ModelForecast[]): ModelForecast[] {
+  return [...forecasts].sort((a, b) => {
+    const aUrgent = a.exhaustsBeforeReset ? 0 : 1;
+    const bUrgent = b.exhaustsBeforeReset ? 0 : 1;
+    if (aUrgent !== bUrgent) return aUrgent - bUrgent;
+    if (aUrgent === 0) return (a.exhaustsAt ?? 0) - (b.exhaustsAt ?? 0);
+    return a.remainingPercent - b.remainingPercent;
+  });
+}
+
+/**
+ * Main forecast command implementation.
+ */
+export async function runForecast(options: ForecastOptions = {}): Promise<ForecastResult> {
+  const deps = options.deps ?? defaultDeps;
+  const format = options.format ?? "table";
+
+  const entries = await deps.readHistory(
+    { configDir: options.configDir },
+    {
+      email: options.accountFilter,
+      identity: options.identityFilter,
+      model: options.model,
+      since: Date.now() - HISTORY_RETENTION_MS,
+    },
+  );
+
+  const forecasts = sortByUrgency(computeForecasts(entries));
+  const output = format === "json" ? renderForecastJson(forecasts) : renderForecastTable(forecasts);
+
+  return { forecasts, output };
+}
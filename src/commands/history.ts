@@ -0,0 +1,86 @@
+/**
+ * History command: queries recorded quota readings from the local history file.
+ * Offline - reads only what previous status runs recorded.
+ */
+
+import type { QuotaIdentity } from "../oauth/constants.js";
+import { readHistory as defaultReadHistory, type QuotaHistoryEntry, type QuotaHistoryQuery } from "../history.js";
+import type { OutputFormat } from "./status.js";
+import { renderHistoryTable } from "../output/table.js";
+import { renderHistoryJson } from "../output/json.js";
+
+export interface HistoryDeps {
+  readHistory: (opts: { configDir?: string } | undefined, query?: QuotaHistoryQuery) => Promise<QuotaHistoryEntry[]>;
+}
+
+const defaultDeps: HistoryDeps = {
+  readHistory: defaultReadHistory,
+};
+
+export interface HistoryOptions {
+  accountFilter?: string;
+  identityFilter?: QuotaIdentity;
+  model?: string;
+  since?: number; // Unix milliseconds
+  until?: number; // Unix milliseconds
+  limit?: number; // Keep only the newest N entries
+  format?: OutputFormat;
+  configDir?: string;
+  deps?: HistoryDeps;
+}
+
+export interface HistoryResult {
+  entries: QuotaHistoryEntry[];
+  output: string;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a time argument: either a relative duration back from now
+ * ("30m", "24h", "7d") or an absolute date/ISO timestamp.
+ *
+ * @returns Unix milliseconds, or undefined if the value can't be parsed
+ */
+export function parseTimeSpec(value: string, now = Date.now()): number | undefined {
+  const relative = /^(\d+)([smhdw])$/.exec(value.trim());
+  if (relative) {
+    return now - Number(relative[1]) * DURATION_UNITS_MS[relative[2]];
+  }
+
+  const absolute = Date.parse(value);
+  return isNaN(absolute) ? undefined : absolute;
+}
+
+/**
+ * Main history command implementation.
+ */
+export async function runHistory(options: HistoryOptions = {}): Promise<HistoryResult> {
+  const deps = options.deps ?? defaultDeps;
+  const format = options.format ?? "table";
+
+  let entries = await deps.readHistory(
+    { configDir: options.configDir },
+    {
+      email: options.accountFilter,
+      identity: options.identityFilter,
+      model: options.model,
+      since: options.since,
+      until: options.until,
+    },
+  );
+
+  if (options.limit !== undefined && entries.length > options.limit) {
+    entries = entries.slice(entries.length - options.limit);
+  }
+
+  const output = format === "json" ? renderHistoryJson(entries) : renderHistoryTable(entries);
+
+  return { entries, output };
+}
@@ -0,0 +1,200 @@
+/**
+ * Import command: adopts refresh tokens that other tools already stored
+ * (Gemini CLI's oauth_creds.json, gcloud application-default credentials),
+ * so onboarding doesn't need another browser consent per identity.
+ */
+
+import { readFile as defaultReadFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { OAUTH_CLIENTS, type QuotaIdentity } from "../oauth/constants.js";
+import type { UsageOpencodeStore } from "../storage.js";
+import { loadStore as defaultLoadStore, saveStore as defaultSaveStore, upsertAccount } from "../storage.js";
+import { refreshAccessToken as defaultRefreshAccessToken } from "../oauth/token.js";
+import { fetchUserEmail as defaultFetchUserEmail } from "../google/userinfo.js";
+
+/**
+ * Where credentials come from: the Gemini CLI or gcloud application-default login.
+ */
+export type ImportSource = "gemini" | "gcloud";
+
+export const IMPORT_SOURCES: ImportSource[] = ["gemini", "gcloud"];
+
+export interface ImportDeps {
+  loadStore: (opts?: { configDir?: string }) => Promise<UsageOpencodeStore>;
+  saveStore: (opts: { configDir?: string } | undefined, store: UsageOpencodeStore) => Promise<void>;
+  readFile: (filePath: string) => Promise<string>;
+  refreshAccessToken: (input: {
+    identity: QuotaIdentity;
+    refreshToken: string;
+  }) => Promise<{ accessToken: string; expiresAt: number }>;
+  fetchUserEmail: (input: { accessToken: string }) => Promise<string>;
+}
+
+const defaultDeps: ImportDeps = {
+  loadStore: defaultLoadStore,
+  saveStore: defaultSaveStore,
+  readFile: (filePath) => defaultReadFile(filePath, "utf8"),
+  refreshAccessToken: defaultRefreshAccessToken,
+  fetchUserEmail: defaultFetchUserEmail,
+};
+
+export interface ImportOptions {
+  sources?: ImportSource[]; // Default locations to read (default: all)
+  file?: string; // Explicit credentials file instead of the default locations
+  configDir?: string;
+  deps?: ImportDeps;
+}
+
+/**
+ * What happened to one credentials file.
+ * - imported: stored for `email` under `identity`
+ * - missing: no file at a default location (not an error)
+ * - failed: unreadable, unsupported client or token rejected (see `error`)
+ */
+export interface ImportOutcome {
+  path: string;
+  source?: ImportSource;
+  status: "imported" | "missing" | "failed";
+  email?: string;
+  identity?: QuotaIdentity;
+  error?: string;
+}
+
+export interface ImportResult {
+  success: boolean; // At least one identity was imported
+  outcomes: ImportOutcome[];
+}
+
+/**
+ * Subset of the fields in Gemini CLI and gcloud credential files.
+ */
+type CredentialsFile = {
+  type?: string; // gcloud: "authorized_user" (or "service_account", unsupported)
+  client_id?: string; // gcloud; absent in Gemini CLI files
+  refresh_token?: string;
+};
+
+export function getGeminiCredentialsPath(): string {
+  return path.join(os.homedir(), ".gemini", "oauth_creds.json");
+}
+
+/**
+ * Location of `gcloud auth application-default login` credentials, honoring CLOUDSDK_CONFIG.
+ */
+export function getGcloudAdcPath(env: Record<string, string | undefined> = process.env): string {
+  const configDir =
+    env.CLOUDSDK_CONFIG ??
+    (process.platform === "win32"
+      ? path.join(env.APPDATA ?? path.join(os.homedir(), "AppData", "Roaming"), "gcloud")
+      : path.join(os.homedir(), ".config", "gcloud"));
+  return path.join(configDir, "application_default_credentials.json");
+}
+
+/**
+ * Maps an OAuth client ID to the identity that uses it. A refresh token only
+ * works with the client it was issued to.
+ */
+export function identityForClientId(clientId: string): QuotaIdentity | undefined {
+  const match = Object.entries(OAUTH_CLIENTS).find(([, client]) => client.clientId === clientId);
+  return match?.[0] as QuotaIdentity | undefined;
+}
+
+async function importFile(
+  filePath: string,
+  expected: ImportSource | undefined,
+  deps: ImportDeps,
+): Promise<{ outcome: ImportOutcome; tokens?: { refreshToken: string; accessToken: string; expiresAt: number } }> {
+  let raw: string;
+  try {
+    raw = await deps.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT" && expected) {
+      return { outcome: { path: filePath, source: expected, status: "missing" } };
+    }
+    return { outcome: { path: filePath, source: expected, status: "failed", error: String(error) } };
+  }
+
+  const failed = (source: ImportSource | undefined, error: string) => ({
+    outcome: { path: filePath, source, status: "failed" as const, error },
+  });
+
+  let parsed: CredentialsFile;
+  try {
+    parsed = JSON.parse(raw) as CredentialsFile;
+  } catch {
+    return failed(expected, "Not a JSON credentials file");
+  }
+
+  const source = expected ?? (parsed.type ? "gcloud" : "gemini");
+  if (parsed.type && parsed.type !== "authorized_user") {
+    return failed(source, `Unsupported credential type ${parsed.type} (only user credentials can be imported)`);
+  }
+  if (!parsed.refresh_token) {
+    return failed(source, "No refresh_token in file");
+  }
+
+  // Gemini CLI files don't name their client; they always use the Gemini CLI one
+  const clientId = parsed.client_id ?? (source === "gemini" ? OAUTH_CLIENTS["gemini-cli"].clientId : undefined);
+  const identity = clientId ? identityForClientId(clientId) : undefined;
+  if (!identity) {
+    return failed(
+      source,
+      `OAuth client ${clientId ?? "(none)"} is not an antigravity or gemini-cli client; ` +
+        "its refresh token can't be used. Run `usage-google login` instead.",
+    );
+  }
+
+  try {
+    const refreshed = await deps.refreshAccessToken({ identity, refreshToken: parsed.refresh_token });
+    const email = await deps.fetchUserEmail({ accessToken: refreshed.accessToken });
+    return {
+      outcome: { path: filePath, source, status: "imported", email, identity },
+      tokens: { refreshToken: parsed.refresh_token, ...refreshed },
+    };
+  } catch (error) {
+    return failed(source, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Main import command implementation.
+ */
+export async function runImport(options: ImportOptions = {}): Promise<ImportResult> {
+  const deps = options.deps ?? defaultDeps;
+  const targets: Array<[string, ImportSource | undefined]> = options.file
+    ? [[options.file, undefined]]
+    : (options.sources ?? IMPORT_SOURCES).map((source) => [
+        source === "gemini" ? getGeminiCredentialsPath() : getGcloudAdcPath(),
+        source,
+      ]);
+
+  let store = await deps.loadStore({ configDir: options.configDir });
+  const outcomes: ImportOutcome[] = [];
+
+  for (const [filePath, source] of targets) {
+    const { outcome, tokens } = await importFile(filePath, source, deps);
+    outcomes.push(outcome);
+    if (!tokens || !outcome.email || !outcome.identity) continue;
+
+    // Keep what's already stored for the identity (e.g. its project ID)
+    const field = outcome.identity === "antigravity" ? "antigravity" : "geminiCli";
+    const existing = store.accounts.find((account) => account.email === outcome.email)?.[field];
+    store = upsertAccount(store, {
+      email: outcome.email,
+      [field]: {
+        ...existing,
+        refreshToken: tokens.refreshToken,
+        cachedAccessToken: tokens.accessToken,
+        cachedExpiresAt: tokens.expiresAt,
+      },
+    });
+  }
+
+  const success = outcomes.some((outcome) => outcome.status === "imported");
+  if (success) {
+    await deps.saveStore({ configDir: options.configDir }, store);
+  }
+  return { success, outcomes };
+}
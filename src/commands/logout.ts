@@ -0,0 +1,132 @@
+/**
+ * Logout command: removes a stored account (or one of its identities)
+ * and revokes the corresponding refresh tokens at Google.
+ */
+
+import type { QuotaIdentity } from "../oauth/constants.js";
+import type { UsageOpencodeStore, UsageOpencodeIdentity } from "../storage.js";
+import {
+  loadStore as defaultLoadStore,
+  saveStore as defaultSaveStore,
+  removeStoreBackups as defaultRemoveStoreBackups,
+  removeAccount,
+} from "../storage.js";
+import { revokeToken as defaultRevokeToken } from "../oauth/token.js";
+
+export interface LogoutDeps {
+  loadStore: (opts?: { configDir?: string }) => Promise<UsageOpencodeStore>;
+  saveStore: (opts: { configDir?: string } | undefined, store: UsageOpencodeStore) => Promise<void>;
+  revokeToken: (input: {
+    token: string;
+    fetchImpl?: (input: string | URL, init?: RequestInit) => Promise<Response>;
+  }) => Promise<void>;
+  removeStoreBackups: (opts?: { configDir?: string }) => Promise<string[]>;
+}
+
+const defaultDeps: LogoutDeps = {
+  loadStore: defaultLoadStore,
+  saveStore: defaultSaveStore,
+  revokeToken: defaultRevokeToken,
+  removeStoreBackups: defaultRemoveStoreBackups,
+};
+
+export interface LogoutOptions {
+  email: string;
+  identity?: QuotaIdentity; // Remove only this identity (default: whole account)
+  keepRemote?: boolean; // Skip revoking tokens at Google
+  configDir?: string;
+  deps?: LogoutDeps;
+}
+
+/**
+ * Revocation failure for a single identity (local removal still happened).
+ */
+export interface RevokeFailure {
+  identity: QuotaIdentity;
+  error: string;
+}
+
+export interface LogoutResult {
+  success: boolean;
+  email: string;
+  error?: string;
+  identitiesRemoved: QuotaIdentity[];
+  accountRemoved: boolean;
+  revokeFailures: RevokeFailure[];
+  backupsRemoved: string[]; // Plaintext store backups deleted because they still held the tokens
+}
+
+/**
+ * Main logout command implementation.
+ */
+export async function runLogout(options: LogoutOptions): Promise<LogoutResult> {
+  const deps = options.deps ?? defaultDeps;
+  const store = await deps.loadStore({ configDir: options.configDir });
+
+  const account = store.accounts.find((a) => a.email === options.email);
+  if (!account) {
+    return {
+      success: false,
+      email: options.email,
+      error: `No stored account for ${options.email}`,
+      identitiesRemoved: [],
+      accountRemoved: false,
+      revokeFailures: [],
+      backupsRemoved: [],
+    };
+  }
+
+  const stored: Array<[QuotaIdentity, UsageOpencodeIdentity | undefined]> = [
+    ["antigravity", account.antigravity],
+    ["gemini-cli", account.geminiCli],
+  ];
+  const targets = stored.filter(
+    ([identity, data]) => data && (!options.identity || options.identity === identity),
+  ) as Array<[QuotaIdentity, UsageOpencodeIdentity]>;
+
+  if (targets.length === 0) {
+    return {
+      success: false,
+      email: options.email,
+      error: `Account ${options.email} has no ${options.identity} identity`,
+      identitiesRemoved: [],
+      accountRemoved: false,
+      revokeFailures: [],
+      backupsRemoved: [],
+    };
+  }
+
+  // Revoke remotely first; failures are reported but don't block local removal
+  const revokeFailures: RevokeFailure[] = [];
+  if (!options.keepRemote) {
+    const outcomes = await Promise.all(
+      targets.map(async ([identity, data]) => {
+        try {
+          await deps.revokeToken({ token: data.refreshToken });
+          return undefined;
+        } catch (error) {
+          return {
+            identity,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }),
+    );
+    for (const outcome of outcomes) {
+      if (outcome) revokeFailures.push(outcome);
+    }
+  }
+
+  const nextStore = removeAccount(store, options.email, options.identity);
+  await deps.saveStore({ configDir: options.configDir }, nextStore);
+  const backupsRemoved = await deps.removeStoreBackups({ configDir: options.configDir });
+
+  return {
+    success: true,
+    email: options.email,
+    identitiesRemoved: targets.map(([identity]) => identity),
+    accountRemoved: !nextStore.accounts.some((a) => a.email === options.email),
+    revokeFailures,
+    backupsRemoved,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Schema command: prints the JSON Schema for `status --format json`
+ * (schema/status.schema.json, shipped with the package).
+ */
+
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Location of the bundled schema (two levels above both src/commands and dist/commands).
+ */
+export function getSchemaPath(): string {
+  return fileURLToPath(new URL("../../schema/status.schema.json", import.meta.url));
+}
+
+export interface SchemaDeps {
+  readSchema: () => Promise<string>;
+}
+
+const defaultDeps: SchemaDeps = {
+  readSchema: () => readFile(getSchemaPath(), "utf8"),
+};
+
+export interface SchemaOptions {
+  deps?: SchemaDeps;
+}
+
+export interface SchemaResult {
+  output: string;
+}
+
+/**
+ * Main schema command implementation.
+ */
+export async function runSchema(options: SchemaOptions = {}): Promise<SchemaResult> {
+  const deps = options.deps ?? defaultDeps;
+  const raw = await deps.readSchema();
+  return { output: raw.endsWith("\n") ? raw : raw + "\n" };
+}
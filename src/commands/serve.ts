@@ -0,0 +1,340 @@
+/**
+ * Serve command: long-running HTTP server exposing quota data.
+ * Serves a JSON API under /v1 and, with --metrics, Prometheus metrics at /metrics.
+ * Status is refreshed through runStatus at most once per cache interval,
+ * however often it is requested.
+ */
+
+import http from "node:http";
+import { timingSafeEqual } from "node:crypto";
+
+import {
+  runStatus as defaultRunStatus,
+  type StatusOptions,
+  type StatusResult,
+  type AccountQuotaReport,
+  type IdentityError,
+} from "./status.js";
+import { renderPrometheus, fetchErrorKind, type FetchErrorCount } from "../output/prometheus.js";
+import { renderJson, type JsonFilters } from "../output/json.js";
+
+/** Default listen address: loopback only. */
+export const DEFAULT_SERVE_HOST = "127.0.0.1";
+
+/** Default listen port. */
+export const DEFAULT_SERVE_PORT = 9464;
+
+/** Default status cache interval (seconds). */
+export const DEFAULT_CACHE_SECONDS = 60;
+
+/** Smallest allowed cache interval (seconds), to avoid hammering the API. */
+export const MIN_CACHE_SECONDS = 10;
+
+/**
+ * Status data as held by the cache.
+ */
+export interface CachedStatus {
+  reports: AccountQuotaReport[];
+  errors: IdentityError[];
+  fetchedAt?: number; // Unix ms of the last successful refresh
+  errorCounts: FetchErrorCount[];
+  refreshFailures: number;
+  lastError?: string; // Message from the last failed refresh
+}
+
+export interface StatusCache {
+  /** Returns cached status, refreshing first when older than the cache interval. */
+  get: () => Promise<CachedStatus>;
+  /** Seconds until the cached status is considered stale. */
+  maxAgeSeconds: () => number;
+}
+
+export interface StatusCacheOptions {
+  runStatus: (options: StatusOptions) => Promise<StatusResult>;
+  status?: StatusOptions;
+  ttlMs: number;
+  now?: () => number;
+}
+
+/**
+ * Creates a status cache that coalesces concurrent refreshes into one runStatus call
+ * and keeps cumulative fetch error counters across refreshes.
+ */
+export function createStatusCache(options: StatusCacheOptions): StatusCache {
+  const now = options.now ?? Date.now;
+  const counters = new Map<string, FetchErrorCount>();
+  let state: CachedStatus = { reports: [], errors: [], errorCounts: [], refreshFailures: 0 };
+  let lastAttemptAt: number | undefined;
+  let inFlight: Promise<void> | undefined;
+
+  const refresh = async () => {
+    lastAttemptAt = now();
+    try {
+      const result = await options.runStatus({ ...options.status, format: "json" });
+      for (const error of result.errors) {
+        const kind = fetchErrorKind(error);
+        const key = `${error.email}\u0000${error.identity}\u0000${kind}`;
+        const counter = counters.get(key) ?? { email: error.email, identity: error.identity, kind, count: 0 };
+        counter.count++;
+        counters.set(key, counter);
+      }
+      state = {
+        ...state,
+        reports: result.reports,
+        errors: result.errors,
+        fetchedAt: now(),
+        errorCounts: [...counters.values()],
+        lastError: undefined,
+      };
+    } catch (error) {
+      // Keep serving the previous data; surface the failure via counters
+      state = {
+        ...state,
+        refreshFailures: state.refreshFailures + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  return {
+    get: async () => {
+      const stale = lastAttemptAt === undefined || now() - lastAttemptAt >= options.ttlMs;
+      if (stale && !inFlight) {
+        inFlight = refresh().finally(() => {
+          inFlight = undefined;
+        });
+      }
+      if (inFlight) await inFlight;
+      return state;
+    },
+    maxAgeSeconds: () => {
+      if (lastAttemptAt === undefined) return 0;
+      return Math.max(0, Math.ceil((options.ttlMs - (now() - lastAttemptAt)) / 1000));
+    },
+  };
+}
+
+export interface ServeHandlerOptions {
+  cache: StatusCache;
+  metrics: boolean;
+  filters?: JsonFilters; // Filters the cached status was fetched with
+  token?: string; // When set, every request needs "Authorization: Bearer <token>"
+}
+
+/**
+ * Status of one account + identity, as listed by GET /v1/accounts.
+ */
+export interface ServedIdentityStatus {
+  identity: IdentityError["identity"];
+  status: "ok" | "needs_relogin" | "forbidden" | "error";
+  projectId?: string;
+  fetchedAt?: number;
+}
+
+/**
+ * Compares a presented bearer token with the configured one in constant time.
+ */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+  if (!match) return false;
+  const presented = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Groups cached reports/errors by account for GET /v1/accounts.
+ */
+function listAccounts(status: CachedStatus): Array<{ email: string; identities: ServedIdentityStatus[] }> {
+  const accounts = new Map<string, ServedIdentityStatus[]>();
+  const add = (email: string, entry: ServedIdentityStatus) => {
+    accounts.set(email, [...(accounts.get(email) ?? []), entry]);
+  };
+
+  for (const report of status.reports) {
+    add(report.email, {
+      identity: report.identity,
+      status: "ok",
+      projectId: report.projectId,
+      fetchedAt: report.fetchedAt,
+    });
+  }
+  for (const error of status.errors) {
+    add(error.email, {
+      identity: error.identity,
+      status: error.needsRelogin ? "needs_relogin" : error.isForbidden ? "forbidden" : "error",
+    });
+  }
+
+  return [...accounts.entries()].map(([email, identities]) => ({ email, identities }));
+}
+
+/**
+ * Builds the request handler (exported separately so it can be tested without a socket).
+ *
+ * Routes:
+ * - GET /v1/status            All reports and errors (renderJson shape)
+ * - GET /v1/accounts          Accounts with per-identity status
+ * - GET /v1/accounts/:email   Reports and errors for one account (renderJson shape)
+ * - GET /v1/models/:model     Reports narrowed to one model (renderJson shape)
+ * - GET /metrics              Prometheus metrics (only with --metrics)
+ */
+export function createServeHandler(
+  options: ServeHandlerOptions,
+): (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    const sendJson = (statusCode: number, body: string) => {
+      res.writeHead(statusCode, {
+        "Content-Type": "application/json; charset=utf-8",
+        "Cache-Control": `private, max-age=${options.cache.maxAgeSeconds()}`,
+      });
+      res.end(body + "\n");
+    };
+    const sendError = (statusCode: number, message: string, headers: Record<string, string> = {}) => {
+      res.writeHead(statusCode, { "Content-Type": "application/json; charset=utf-8", ...headers });
+      res.end(JSON.stringify({ error: message }) + "\n");
+    };
+
+    if (options.token && !isAuthorized(req.headers.authorization, options.token)) {
+      sendError(401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    if (req.method !== "GET") {
+      sendError(405, "Method not allowed", { Allow: "GET" });
+      return;
+    }
+
+    if (options.metrics && url.pathname === "/metrics") {
+      const status = await options.cache.get();
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(
+        renderPrometheus({
+          reports: status.reports,
+          errorCounts: status.errorCounts,
+          refreshFailures: status.refreshFailures,
+          lastRefreshAt: status.fetchedAt,
+        }),
+      );
+      return;
+    }
+
+    let segments: string[];
+    try {
+      segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    } catch {
+      // Malformed percent-encoding (e.g. /v1/accounts/%E0) is the client's mistake
+      sendError(400, "Malformed URL path");
+      return;
+    }
+
+    if (segments[0] !== "v1") {
+      sendError(404, "Not found");
+      return;
+    }
+
+    if (segments.length === 2 && segments[1] === "status") {
+      const status = await options.cache.get();
+      sendJson(200, renderJson(status.reports, status.errors, { filters: options.filters }));
+      return;
+    }
+
+    if (segments.length === 2 && segments[1] === "accounts") {
+      const status = await options.cache.get();
+      sendJson(200, JSON.stringify({ accounts: listAccounts(status) }, null, 2));
+      return;
+    }
+
+    if (segments.length === 3 && segments[1] === "accounts") {
+      const status = await options.cache.get();
+      const email = segments[2];
+      const reports = status.reports.filter((r) => r.email === email);
+      const errors = status.errors.filter((e) => e.email === email);
+      if (reports.length === 0 && errors.length === 0) {
+        sendError(404, `Unknown account: ${email}`);
+        return;
+      }
+      sendJson(200, renderJson(reports, errors, { filters: { ...options.filters, account: email } }));
+      return;
+    }
+
+    if (segments.length === 3 && segments[1] === "models") {
+      const status = await options.cache.get();
+      const model = segments[2];
+      const reports = status.reports
+        .map((r) => ({ ...r, models: r.models.filter((m) => m.model === model) }))
+        .filter((r) => r.models.length > 0);
+      if (reports.length === 0) {
+        sendError(404, `Unknown model: ${model}`);
+        return;
+      }
+      sendJson(200, renderJson(reports, status.errors, { filters: { ...options.filters, model } }));
+      return;
+    }
+
+    sendError(404, "Not found");
+  };
+}
+
+export interface ServeOptions {
+  host?: string;
+  port?: number;
+  metrics?: boolean;
+  token?: string;
+  cacheSeconds?: number;
+  status?: StatusOptions;
+  runStatus?: (options: StatusOptions) => Promise<StatusResult>;
+}
+
+export interface RunningServer {
+  host: string;
+  port: number;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts the HTTP server and resolves once it is listening.
+ */
+export async function startServe(options: ServeOptions = {}): Promise<RunningServer> {
+  const cacheSeconds = Math.max(MIN_CACHE_SECONDS, options.cacheSeconds ?? DEFAULT_CACHE_SECONDS);
+  const cache = createStatusCache({
+    runStatus: options.runStatus ?? defaultRunStatus,
+    status: options.status,
+    ttlMs: cacheSeconds * 1000,
+  });
+  const handler = createServeHandler({
+    cache,
+    metrics: options.metrics ?? false,
+    token: options.token,
+    filters: { account: options.status?.accountFilter, identity: options.status?.identityFilter },
+  });
+
+  const server = http.createServer((req, res) => {
+    handler(req, res).catch((error) => {
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "application/json; charset=utf-8" });
+      }
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }) + "\n");
+    });
+  });
+
+  const host = options.host ?? DEFAULT_SERVE_HOST;
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_SERVE_PORT, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const addr = server.address();
+  const port = addr && typeof addr !== "string" ? addr.port : (options.port ?? DEFAULT_SERVE_PORT);
+
+  return {
+    host,
+    port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -9,8 +9,25 @@ import { loadStore as defaultLoadStore, saveStore as defaultSaveStore } from "..
 import { refreshAccessToken as defaultRefreshAccessToken } from "../oauth/token.js";
 import { ensureProjectId as defaultEnsureProjectId } from "../google/project.js";
 import { fetchQuota as defaultFetchQuota, type ModelQuota } from "../google/quota.js";
-import { renderTable } from "../output/table.js";
-import { renderJson } from "../output/json.js";
+import {
+  appendHistory as defaultAppendHistory,
+  readHistory as defaultReadHistory,
+  reportsToHistoryEntries,
+  HISTORY_RETENTION_MS,
+  type QuotaHistoryEntry,
+  type QuotaHistoryQuery,
+} from "../history.js";
+import { computeForecasts, type ModelForecast } from "../forecast.js";
+import { groupByModel } from "../pivot.js";
+import { filterModels, sortReports, type SortSpec, type StatusColumn } from "../selection.js";
+import { renderTable, renderModelPivotTable } from "../output/table.js";
+import { renderJson, buildJsonOutput } from "../output/json.js";
+import { renderCsv, renderTsv } from "../output/delimited.js";
+import { renderMarkdown } from "../output/markdown.js";
+import type { ColorCutoffs } from "../output/color.js";
+import type { ResetFormat } from "../output/time.js";
+import { renderNdjsonReport, renderNdjsonError, renderNdjsonSummary } from "../output/ndjson.js";
+import { parseTemplate, renderTemplate, TemplateError } from "../output/template.js";
 
 /** Minimum remaining lifetime (seconds) for a cached token to be reused. */
 const TOKEN_CACHE_MARGIN_S = 300;
@@ -44,6 +61,7 @@ export interface IdentityError {
 export interface StatusResult {
   reports: AccountQuotaReport[];
   errors: IdentityError[];
+  forecasts?: ModelForecast[]; // Only when StatusOptions.forecast is set
   output: string;
 }
 
@@ -69,6 +87,8 @@ export interface StatusDeps {
     identity?: QuotaIdentity;
     fetchImpl?: (input: string | URL, init?: RequestInit) => Promise<Response>;
   }) => Promise<ModelQuota[]>;
+  appendHistory: (opts: { configDir?: string } | undefined, entries: QuotaHistoryEntry[]) => Promise<void>;
+  readHistory: (opts: { configDir?: string } | undefined, query?: QuotaHistoryQuery) => Promise<QuotaHistoryEntry[]>;
 }
 
 const defaultDeps: StatusDeps = {
@@ -77,9 +97,21 @@ const defaultDeps: StatusDeps = {
   refreshAccessToken: defaultRefreshAccessToken,
   ensureProjectId: defaultEnsureProjectId,
   fetchQuota: defaultFetchQuota,
+  appendHistory: defaultAppendHistory,
+  readHistory: defaultReadHistory,
 };
 
-export type OutputFormat = "table" | "json";
+/**
+ * Output formats. csv/tsv/markdown/ndjson/template are status-only; other commands render them as table.
+ */
+export type OutputFormat = "table" | "json" | "csv" | "tsv" | "markdown" | "ndjson" | "template";
+
+/** Every accepted --format value. */
+export const OUTPUT_FORMATS: OutputFormat[] = ["table", "json", "csv", "tsv", "markdown", "ndjson", "template"];
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
 
 export interface StatusOptions {
   deps?: StatusDeps;
@@ -87,8 +119,29 @@ export interface StatusOptions {
   accountFilter?: string;
   identityFilter?: QuotaIdentity;
   configDir?: string;
+  recordHistory?: boolean; // Append successful readings to the history file (default: true)
+  forecast?: boolean; // Add burn-rate forecast columns (uses recorded history)
+  summaryModels?: string[]; // Models for the table summary section (default: built-in list)
+  onOutput?: (chunk: string) => void; // ndjson only: receives each line as soon as it is ready
+  color?: boolean; // table only: ANSI colors for Remaining/Status cells
+  colorCutoffs?: ColorCutoffs; // table only: remaining-percent color cut points
+  bars?: boolean; // table only: bar gauge in the Remaining column
+  width?: number; // table only: max line width (terminal columns); unlimited when undefined
+  compact?: boolean; // table only: one line per account/identity with summary models
+  by?: StatusGrouping; // table/json: group rows by account (default) or by model
+  models?: string[]; // Only keep models matching any of these globs (all formats)
+  sort?: SortSpec; // Row order; ndjson streams in completion order and ignores it
+  columns?: StatusColumn[]; // table/markdown/csv/tsv: columns to show, in order
+  resetFormat?: ResetFormat; // table/markdown/template: relative (default), absolute or both
+  timeZone?: string; // table/markdown/template: IANA zone for absolute reset times (default: system zone)
+  template?: string; // template only: Go-style template source (see output/template.ts)
 }
 
+/**
+ * How status rows are grouped: per account/identity, or pivoted per model.
+ */
+export type StatusGrouping = "account" | "model";
+
 /**
  * Determines if an error indicates the refresh token is invalid and re-login is needed.
  */
@@ -164,13 +217,10 @@ async function fetchIdentityQuota(
       tokenCache = { accessToken: refreshed.accessToken, expiresAt: refreshed.expiresAt };
     }
 
-    // Get identity-specific project ID, falling back to account-level (legacy)
-    const storedProjectId = identityData.projectId ?? account.projectId;
-
     // Ensure project ID (discover if not stored)
     const projectId = await deps.ensureProjectId({
       accessToken,
-      projectId: storedProjectId,
+      projectId: identityData.projectId,
     });
 
     // Fetch quotas
@@ -248,7 +298,23 @@ export async function runStatus(options: StatusOptions = {}): Promise<StatusResu
     }
   }
 
-  const results = await Promise.all(tasks);
+  // ndjson: emit each identity as soon as it settles instead of after Promise.all
+  const streamed: string[] = [];
+  const emit = (chunk: string) => {
+    streamed.push(chunk);
+    options.onOutput?.(chunk);
+  };
+  const results = await Promise.all(
+    format === "ndjson"
+      ? tasks.map((task) =>
+          task.then((result) => {
+            if (result.report) emit(renderNdjsonReport(filterModels([result.report], options.models)[0]));
+            if (result.error) emit(renderNdjsonError(result.error));
+            return result;
+          }),
+        )
+      : tasks,
+  );
 
   // Collect reports/errors and track whether any tokens were refreshed
   let storeNeedsUpdate = false;
@@ -289,8 +355,114 @@ export async function runStatus(options: StatusOptions = {}): Promise<StatusResu
     });
   }
 
+  // Record readings for `history`/burn-rate queries (best-effort)
+  if (options.recordHistory !== false && reports.length > 0) {
+    await deps
+      .appendHistory({ configDir: options.configDir }, reportsToHistoryEntries(reports))
+      .catch(() => {
+        // Swallow errors — history is best-effort and must not break status
+      });
+  }
+
+  // Narrow and order after recording, so history keeps every model
+  let selected = filterModels(reports, options.models);
+  if (options.sort) selected = sortReports(selected, options.sort);
+
+  // Forecast from recorded history plus this run's readings
+  let forecasts: ModelForecast[] | undefined;
+  if (options.forecast) {
+    const current = reportsToHistoryEntries(selected);
+    const history = await deps
+      .readHistory({ configDir: options.configDir }, { since: Date.now() - HISTORY_RETENTION_MS })
+      .catch(() => [] as QuotaHistoryEntry[]);
+    const recorded = options.recordHistory !== false;
+    forecasts = computeForecasts(recorded ? history : [...history, ...current]).filter((forecast) =>
+      current.some(
+        (entry) =>
+          entry.email === forecast.email && entry.identity === forecast.identity && entry.model === forecast.model,
+      ),
+    );
+  }
+
   // Render output
-  const output = format === "json" ? renderJson(reports, errors) : renderTable(reports, errors);
+  const filters = {
+    account: options.accountFilter,
+    identity: options.identityFilter,
+    models: options.models?.length ? options.models : undefined,
+  };
+  const byModel = options.by === "model" ? groupByModel(selected, options.sort) : undefined;
+  const selection = { sort: options.sort, columns: options.columns };
+  const resetDisplay = { resetFormat: options.resetFormat, timeZone: options.timeZone };
+  let output: string;
+  switch (format) {
+    case "json":
+      output = renderJson(selected, errors, { forecasts, filters, byModel });
+      break;
+    case "ndjson":
+      emit(renderNdjsonSummary(selected, errors, { forecasts, filters }));
+      output = streamed.join("");
+      break;
+    case "template":
+      if (options.template === undefined) {
+        throw new TemplateError("--format template needs --template or --template-file");
+      }
+      output = renderTemplate(
+        parseTemplate(options.template),
+        buildJsonOutput(selected, errors, { forecasts, filters, byModel }),
+        resetDisplay,
+      );
+      break;
+    case "csv":
+      output = renderCsv(selected, errors, undefined, selection);
+      break;
+    case "tsv":
+      output = renderTsv(selected, errors, undefined, selection);
+      break;
+    case "markdown":
+      output = renderMarkdown(selected, errors, {
+        forecasts,
+        summaryModels: options.summaryModels,
+        ...selection,
+        ...resetDisplay,
+      });
+      break;
+    default:
+      output = renderStatusTable(selected, errors, forecasts, options);
+  }
 
-  return { reports, errors, output };
+  return { reports: selected, errors, forecasts, output };
+}
+
+/**
+ * Renders runStatus results as the status table with the table options in
+ * `options`. Watch mode uses it to redraw between fetches.
+ */
+export function renderStatusTable(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  forecasts: ModelForecast[] | undefined,
+  options: StatusOptions,
+): string {
+  const resetDisplay = { resetFormat: options.resetFormat, timeZone: options.timeZone };
+  if (options.by === "model") {
+    return renderModelPivotTable(groupByModel(reports, options.sort), errors, {
+      color: options.color,
+      colorCutoffs: options.colorCutoffs,
+      bars: options.bars,
+      width: options.width,
+      ...resetDisplay,
+    });
+  }
+  return renderTable(reports, errors, {
+    forecasts,
+    summaryModels: options.summaryModels,
+    color: options.color,
+    colorCutoffs: options.colorCutoffs,
+    bars: options.bars,
+    width: options.width,
+    compact: options.compact,
+    sort: options.sort,
+    columns: options.columns,
+    ...resetDisplay,
+  });
 }
@@ -0,0 +1,147 @@
+/**
+ * Store command: migrates the credential store between plaintext and
+ * encrypted-at-rest formats, and moves tokens between the store file and a
+ * credential helper. Every other command then reads and writes the store
+ * transparently.
+ */
+
+import {
+  encryptStore as defaultEncryptStore,
+  decryptStore as defaultDecryptStore,
+  setSecretsBackend as defaultSetSecretsBackend,
+  removeStoreBackups as defaultRemoveStoreBackups,
+  getUsageStorePath,
+} from "../storage.js";
+import { SecretBackendError, type SecretsConfig } from "../secrets.js";
+import {
+  createKeyFile as defaultCreateKeyFile,
+  StoreEncryptionError,
+  KEY_FILE_ENV,
+  PASSPHRASE_ENV,
+  type StoreSecret,
+} from "../encryption.js";
+
+export interface StoreDeps {
+  encryptStore: (opts: { configDir?: string } | undefined, secret: StoreSecret) => Promise<number>;
+  decryptStore: (opts?: { configDir?: string }) => Promise<number>;
+  createKeyFile: (keyFile: string) => Promise<boolean>;
+  setSecretsBackend: (opts: { configDir?: string } | undefined, secrets: SecretsConfig | undefined) => Promise<number>;
+  removeStoreBackups: (opts?: { configDir?: string }) => Promise<string[]>;
+}
+
+const defaultDeps: StoreDeps = {
+  encryptStore: defaultEncryptStore,
+  decryptStore: defaultDecryptStore,
+  createKeyFile: defaultCreateKeyFile,
+  setSecretsBackend: defaultSetSecretsBackend,
+  removeStoreBackups: defaultRemoveStoreBackups,
+};
+
+export type StoreAction = "encrypt" | "decrypt" | "secrets";
+
+export interface StoreOptions {
+  action: StoreAction;
+  secret?: StoreSecret; // Required for encrypt; decrypt uses the unlocked secret
+  helper?: string; // secrets: credential helper command; undefined moves tokens back into the file
+  configDir?: string;
+  deps?: StoreDeps;
+}
+
+export interface StoreResult {
+  success: boolean;
+  error?: string;
+  accountCount?: number;
+  output: string;
+}
+
+/**
+ * Main store command implementation.
+ */
+export async function runStore(options: StoreOptions): Promise<StoreResult> {
+  const deps = options.deps ?? defaultDeps;
+  const opts = { configDir: options.configDir };
+  const storePath = getUsageStorePath(opts);
+
+  // Plaintext backups would keep the tokens that encrypting or moving them protects
+  const removeBackups = async () =>
+    (await deps.removeStoreBackups(opts)).map((file) => `Deleted plaintext store backup ${file}.\n`).join("");
+
+  try {
+    if (options.action === "secrets") {
+      const secrets: SecretsConfig | undefined = options.helper
+        ? { backend: "helper", command: options.helper }
+        : undefined;
+      const accountCount = await deps.setSecretsBackend(opts, secrets);
+      const where = options.helper ? `credential helper "${options.helper}"` : `${storePath}`;
+      const removed = options.helper ? await removeBackups() : "";
+      return {
+        success: true,
+        accountCount,
+        output: `Moved tokens for ${accountCount} account(s) to ${where}.\n${removed}`,
+      };
+    }
+
+    if (options.action === "decrypt") {
+      const accountCount = await deps.decryptStore(opts);
+      return {
+        success: true,
+        accountCount,
+        output: `Decrypted ${storePath} (${accountCount} account(s)). It is now protected only by file permissions.\n`,
+      };
+    }
+
+    if (!options.secret) {
+      return { success: false, error: "A passphrase or key file is required to encrypt the store", output: "" };
+    }
+    const lines: string[] = [];
+    if ("keyFile" in options.secret && (await deps.createKeyFile(options.secret.keyFile))) {
+      lines.push(`Created key file ${options.secret.keyFile}. Back it up: the store can't be decrypted without it.`);
+    }
+    const accountCount = await deps.encryptStore(opts, options.secret);
+    const unlock =
+      "passphrase" in options.secret ? `the passphrase (or ${PASSPHRASE_ENV})` : `the key file (or ${KEY_FILE_ENV})`;
+    lines.push(`Encrypted ${storePath} (${accountCount} account(s)). Commands now need ${unlock} to unlock it.`);
+    return { success: true, accountCount, output: lines.join("\n") + "\n" + (await removeBackups()) };
+  } catch (error) {
+    if (error instanceof StoreEncryptionError || error instanceof SecretBackendError) {
+      return { success: false, error: error.message, output: "" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads a passphrase from the terminal without echoing it (to stderr, so
+ * stdout stays clean for piped output).
+ */
+export async function promptPassphrase(message: string): Promise<string> {
+  const stdin = process.stdin;
+  process.stderr.write(message);
+
+  return new Promise((resolve, reject) => {
+    let input = "";
+    const wasRaw = stdin.isRaw;
+
+    const finish = (error?: Error) => {
+      stdin.removeListener("data", onData);
+      stdin.setRawMode?.(wasRaw ?? false);
+      stdin.pause();
+      process.stderr.write("\n");
+      if (error) reject(error);
+      else resolve(input);
+    };
+
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf8")) {
+        if (char === "\r" || char === "\n" || char === "\u0004") return finish();
+        if (char === "\u0003") return finish(new Error("Cancelled"));
+        if (char === "\u007f" || char === "\b") input = input.slice(0, -1);
+        else input += char;
+      }
+    };
+
+    stdin.setRawMode?.(true);
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
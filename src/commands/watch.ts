@@ -0,0 +1,152 @@
+/**
+ * Watch mode for the status command: reruns runStatus on an interval and
+ * redraws the table in place on a TTY, backing off when fetches fail.
+ */
+
+import {
+  runStatus as defaultRunStatus,
+  renderStatusTable,
+  type StatusOptions,
+  type StatusResult,
+} from "./status.js";
+import { findThresholdViolations, formatThresholdViolation, type ThresholdRule } from "../thresholds.js";
+
+/** Default refresh interval (seconds). */
+export const DEFAULT_WATCH_INTERVAL_S = 60;
+
+/** Smallest allowed refresh interval (seconds), to avoid hammering the API. */
+export const MIN_WATCH_INTERVAL_S = 10;
+
+/** How often the reset countdown is redrawn between fetches (seconds). */
+const TICK_INTERVAL_S = 15;
+
+/** Upper bound for the failure backoff delay (15 minutes). */
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+/** ANSI sequence: move cursor home and clear the screen. */
+const CLEAR_SCREEN = "\x1b[H\x1b[2J";
+
+export interface WatchDeps {
+  runStatus: (options: StatusOptions) => Promise<StatusResult>;
+  write: (text: string) => void;
+  writeError: (text: string) => void;
+  sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  isTTY: () => boolean;
+}
+
+/**
+ * Sleeps for the given time, resolving early if the signal aborts.
+ */
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+const defaultDeps: WatchDeps = {
+  runStatus: defaultRunStatus,
+  write: (text) => process.stdout.write(text),
+  writeError: (text) => process.stderr.write(text),
+  sleep: defaultSleep,
+  isTTY: () => Boolean(process.stdout.isTTY),
+};
+
+export interface WatchOptions {
+  status?: StatusOptions;
+  intervalSeconds?: number;
+  thresholds?: ThresholdRule[]; // --fail-below rules, reported after every fetch (watch never exits on them)
+  signal?: AbortSignal;
+  deps?: WatchDeps;
+}
+
+/**
+ * Computes the delay before the next fetch.
+ * Doubles the interval for each consecutive failure, capped at MAX_BACKOFF_MS
+ * (but never shorter than the configured interval).
+ */
+export function computeBackoffMs(intervalMs: number, consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) return intervalMs;
+  const backoff = intervalMs * 2 ** consecutiveFailures;
+  return Math.max(intervalMs, Math.min(backoff, MAX_BACKOFF_MS));
+}
+
+function formatClock(ms: number): string {
+  return new Date(ms).toTimeString().slice(0, 8);
+}
+
+/**
+ * Runs status in a loop until the signal aborts.
+ */
+export async function runWatch(options: WatchOptions = {}): Promise<void> {
+  const deps = options.deps ?? defaultDeps;
+  const format = options.status?.format ?? "table";
+  const intervalMs = Math.max(MIN_WATCH_INTERVAL_S, options.intervalSeconds ?? DEFAULT_WATCH_INTERVAL_S) * 1000;
+  const tickMs = TICK_INTERVAL_S * 1000;
+  const interactive = format === "table" && deps.isTTY();
+
+  let consecutiveFailures = 0;
+  let last: (Pick<StatusResult, "reports" | "errors" | "forecasts"> & { at: number }) | undefined;
+
+  while (!options.signal?.aborted) {
+    let output = "";
+    let fetchError: string | undefined;
+    let breaches = "";
+
+    try {
+      const result = await deps.runStatus({ ...options.status, format });
+      output = result.output;
+      breaches = findThresholdViolations(result.reports, options.thresholds ?? [])
+        .map((v) => `${formatThresholdViolation(v)}\n`)
+        .join("");
+      last = { reports: result.reports, errors: result.errors, forecasts: result.forecasts, at: Date.now() };
+      const allFailed = result.reports.length === 0 && result.errors.length > 0;
+      consecutiveFailures = allFailed ? consecutiveFailures + 1 : 0;
+    } catch (error) {
+      fetchError = error instanceof Error ? error.message : String(error);
+      consecutiveFailures++;
+    }
+
+    const delayMs = computeBackoffMs(intervalMs, consecutiveFailures);
+    const statusLine = (remainingMs: number) => {
+      const updated = last ? `Updated ${formatClock(last.at)}` : "No data yet";
+      const failure = fetchError ? ` · last fetch failed: ${fetchError}` : "";
+      const backoff = consecutiveFailures > 0 ? ` (backing off after ${consecutiveFailures} failure(s))` : "";
+      return `${updated}${failure} · next refresh in ${Math.ceil(remainingMs / 1000)}s${backoff}\n`;
+    };
+
+    if (!interactive) {
+      // Plain append mode (pipes, log files, JSON)
+      if (fetchError) {
+        deps.write(`Error: ${fetchError}\n`);
+      } else {
+        deps.write(format === "json" ? output + "\n" : output);
+        // stderr, so piped data stays parseable
+        if (breaches) deps.writeError(breaches);
+      }
+      await deps.sleep(delayMs, options.signal);
+      continue;
+    }
+
+    // Redraw in place; between fetches re-render so reset countdowns tick down
+    const draw = (remainingMs: number) => {
+      const body = last ? renderStatusTable(last.reports, last.errors, last.forecasts, { ...options.status, format }) : "";
+      deps.write(CLEAR_SCREEN + statusLine(remainingMs) + breaches + "\n" + body);
+    };
+
+    let remainingMs = delayMs;
+    draw(remainingMs);
+    while (remainingMs > 0 && !options.signal?.aborted) {
+      const step = Math.min(tickMs, remainingMs);
+      await deps.sleep(step, options.signal);
+      remainingMs -= step;
+      if (remainingMs > 0) draw(remainingMs);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { QuotaIdentity } from "./oauth/constants.js";
+import { isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from "./commands/status.js";
+import { getOpencodeConfigDir } from "./storage.js";
+import { parseThresholdSpec } from "./thresholds.js";
+import { parseColorCutoffs, type ColorMode } from "./output/color.js";
+import { isResetFormat, parseTimeZone, RESET_FORMATS, type ResetFormat } from "./output/time.js";
+
+/**
+ * User defaults, stored next to the account store. CLI flags override every key.
+ */
+export type UsageGoogleConfig = {
+  format?: Exclude<OutputFormat, "template">; // Default --format
+  only?: QuotaIdentity; // Default --only
+  account?: string; // Default --account
+  summaryModels?: string[]; // Models shown in the status summary table
+  failBelow?: string[]; // Default --fail-below specs (replaced by any --fail-below flag)
+  color?: ColorMode; // Default --color
+  colorCutoffs?: string; // Default --color-cutoffs ("red,yellow", e.g. "20,50")
+  resetFormat?: ResetFormat; // Default --reset-format
+  tz?: string; // Default --tz ("local", "UTC" or an IANA zone)
+};
+
+export type ConfigKey = keyof UsageGoogleConfig;
+
+const CONFIG_FILENAME = "usage-google-config.json";
+
+/**
+ * Keys accepted by `config get/set`, in display order.
+ */
+export const CONFIG_KEYS: ConfigKey[] = [
+  "format",
+  "only",
+  "account",
+  "summaryModels",
+  "failBelow",
+  "color",
+  "colorCutoffs",
+  "resetFormat",
+  "tz",
+];
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export function getConfigPath(opts?: { configDir?: string }): string {
+  const configDir = opts?.configDir ?? getOpencodeConfigDir();
+  return path.join(configDir, CONFIG_FILENAME);
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return (CONFIG_KEYS as string[]).includes(key);
+}
+
+function splitList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses and validates a raw string for a config key (as given to `config set`).
+ * Lists are comma-separated.
+ *
+ * @throws ConfigError if the value is not valid for the key
+ */
+export function parseConfigValue<K extends ConfigKey>(key: K, raw: string): UsageGoogleConfig[K] {
+  const value = raw.trim();
+  switch (key) {
+    case "format":
+      // template needs --template or --template-file on every run, so it can't be a default
+      if (!isOutputFormat(value) || value === "template") {
+        const formats = OUTPUT_FORMATS.filter((format) => format !== "template");
+        throw new ConfigError(`Invalid format: ${raw}. Must be one of ${formats.join(", ")}.`);
+      }
+      return value as UsageGoogleConfig[K];
+    case "only":
+      if (value !== "antigravity" && value !== "gemini-cli") {
+        throw new ConfigError(`Invalid identity: ${raw}. Must be antigravity or gemini-cli.`);
+      }
+      return value as UsageGoogleConfig[K];
+    case "account":
+      if (!value.includes("@")) {
+        throw new ConfigError(`Invalid account: ${raw}. Must be an email address.`);
+      }
+      return value as UsageGoogleConfig[K];
+    case "summaryModels": {
+      const models = splitList(value);
+      if (models.length === 0) {
+        throw new ConfigError("summaryModels needs at least one model name.");
+      }
+      return models as UsageGoogleConfig[K];
+    }
+    case "failBelow": {
+      const specs = splitList(value);
+      const bad = specs.find((spec) => !parseThresholdSpec(spec));
+      if (specs.length === 0 || bad !== undefined) {
+        throw new ConfigError(
+          `Invalid failBelow value: ${bad ?? raw}. Use a percent (10) or model-glob:percent (claude-*:20).`,
+        );
+      }
+      return specs as UsageGoogleConfig[K];
+    }
+    case "color":
+      if (value !== "always" && value !== "never" && value !== "auto") {
+        throw new ConfigError(`Invalid color mode: ${raw}. Must be always, never or auto.`);
+      }
+      return value as UsageGoogleConfig[K];
+    case "colorCutoffs":
+      if (!parseColorCutoffs(value)) {
+        throw new ConfigError(`Invalid colorCutoffs: ${raw}. Use "red,yellow" percents, e.g. 20,50.`);
+      }
+      return value.replace(/\s+/g, "") as UsageGoogleConfig[K];
+    case "resetFormat":
+      if (!isResetFormat(value)) {
+        throw new ConfigError(`Invalid resetFormat: ${raw}. Must be one of ${RESET_FORMATS.join(", ")}.`);
+      }
+      return value as UsageGoogleConfig[K];
+    case "tz":
+      // Stored as given so "local" follows the machine it runs on
+      if (!parseTimeZone(value)) {
+        throw new ConfigError(`Invalid tz: ${raw}. Use local, UTC or an IANA zone such as Europe/Berlin.`);
+      }
+      return value as UsageGoogleConfig[K];
+    default:
+      throw new ConfigError(`Unknown config key: ${key}`);
+  }
+}
+
+/**
+ * Formats a config value the way `config set` accepts it.
+ */
+export function formatConfigValue(value: UsageGoogleConfig[ConfigKey]): string {
+  return Array.isArray(value) ? value.join(",") : (value ?? "");
+}
+
+/**
+ * Validates parsed file contents, keeping only known keys with valid values.
+ *
+ * @throws ConfigError naming the first invalid key
+ */
+function validateConfig(parsed: unknown, filePath: string): UsageGoogleConfig {
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${filePath} must contain a JSON object`);
+  }
+
+  const config: UsageGoogleConfig = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!isConfigKey(key)) continue; // Unknown keys are ignored for forward compatibility
+    const raw = Array.isArray(value) ? value.join(",") : value;
+    if (typeof raw !== "string") {
+      throw new ConfigError(`Invalid value for "${key}" in ${filePath}`);
+    }
+    try {
+      (config as Record<ConfigKey, unknown>)[key] = parseConfigValue(key, raw);
+    } catch (err) {
+      throw new ConfigError(`${err instanceof Error ? err.message : String(err)} (in ${filePath})`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Loads the config file. A missing file yields an empty config.
+ *
+ * @throws ConfigError if the file exists but is malformed
+ */
+export async function loadConfig(opts?: { configDir?: string }): Promise<UsageGoogleConfig> {
+  const configPath = getConfigPath(opts);
+
+  let raw: string;
+  try {
+    raw = await readFile(configPath, "utf8");
+  } catch {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new ConfigError(
+      `Config file ${configPath} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  return validateConfig(parsed, configPath);
+}
+
+export async function saveConfig(opts: { configDir?: string } | undefined, config: UsageGoogleConfig): Promise<void> {
+  const configPath = getConfigPath(opts);
+  await mkdir(path.dirname(configPath), { recursive: true });
+
+  // Write to temporary file first for atomic operation
+  const tempPath = `${configPath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(config, null, 2) + "\n", "utf8");
+  await rename(tempPath, configPath);
+}
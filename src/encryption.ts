@@ -0,0 +1,195 @@
+import { createCipheriv, createDecipheriv, createHash, hkdf, randomBytes, scrypt } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/** Marks an encrypted store file (the plaintext store has no `format` key). */
+export const ENCRYPTED_STORE_FORMAT = "usage-google-encrypted-store";
+
+/** Environment variable holding the store passphrase (for automation). */
+export const PASSPHRASE_ENV = "USAGE_GOOGLE_PASSPHRASE";
+
+/** Environment variable holding the path of a store key file. */
+export const KEY_FILE_ENV = "USAGE_GOOGLE_KEY_FILE";
+
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const MIN_KEY_FILE_BYTES = 16;
+
+/** scrypt cost: 2^15 iterations with r=8 needs 32 MiB and ~100 ms. */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Key derivation recorded in the file: scrypt for passphrases, HKDF for key files.
+ */
+export type KdfParams =
+  | { name: "scrypt"; salt: string; N: number; r: number; p: number }
+  | { name: "hkdf-sha256"; salt: string };
+
+/**
+ * On-disk shape of an encrypted store. Everything but `data` is authenticated
+ * as additional data, so tampering with the KDF parameters fails decryption.
+ */
+export type EncryptedStoreFile = {
+  format: typeof ENCRYPTED_STORE_FORMAT;
+  version: 1;
+  kdf: KdfParams;
+  cipher: typeof CIPHER;
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64 ciphertext of the plaintext store JSON
+};
+
+/**
+ * What unlocks an encrypted store.
+ */
+export type StoreSecret = { passphrase: string } | { keyFile: string };
+
+export class StoreEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StoreEncryptionError";
+  }
+}
+
+export function isEncryptedStoreFile(parsed: unknown): parsed is EncryptedStoreFile {
+  return Boolean(parsed) && (parsed as { format?: unknown }).format === ENCRYPTED_STORE_FORMAT;
+}
+
+/**
+ * Reads the store secret from USAGE_GOOGLE_PASSPHRASE or USAGE_GOOGLE_KEY_FILE.
+ */
+export function secretFromEnv(env: Record<string, string | undefined> = process.env): StoreSecret | undefined {
+  if (env[PASSPHRASE_ENV]) return { passphrase: env[PASSPHRASE_ENV] };
+  if (env[KEY_FILE_ENV]) return { keyFile: env[KEY_FILE_ENV] };
+  return undefined;
+}
+
+/**
+ * Describes a secret for messages, without revealing it.
+ */
+function describeSecret(kdf: KdfParams): string {
+  return kdf.name === "scrypt" ? "passphrase" : "key file";
+}
+
+async function readKeyFile(keyFile: string): Promise<Buffer> {
+  let material: Buffer;
+  try {
+    material = await readFile(keyFile);
+  } catch (error) {
+    throw new StoreEncryptionError(
+      `Cannot read key file ${keyFile}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (material.length < MIN_KEY_FILE_BYTES) {
+    throw new StoreEncryptionError(`Key file ${keyFile} is too short (need at least ${MIN_KEY_FILE_BYTES} bytes)`);
+  }
+  return material;
+}
+
+/**
+ * Creates a key file with 32 random bytes (base64, mode 0600) unless it exists.
+ *
+ * @returns True when a new key file was written
+ */
+export async function createKeyFile(keyFile: string): Promise<boolean> {
+  await mkdir(path.dirname(keyFile), { recursive: true });
+  try {
+    await writeFile(keyFile, randomBytes(KEY_LENGTH).toString("base64"), { mode: 0o600, flag: "wx" });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw error;
+  }
+}
+
+/** Last derived key, so a load followed by a save doesn't run scrypt twice. */
+let cachedKey: { id: string; key: Buffer } | undefined;
+
+async function deriveKey(kdf: KdfParams, secret: StoreSecret): Promise<Buffer> {
+  if (kdf.name === "scrypt" && !("passphrase" in secret)) {
+    throw new StoreEncryptionError(`Store is encrypted with a passphrase; set ${PASSPHRASE_ENV}`);
+  }
+  if (kdf.name === "hkdf-sha256" && !("keyFile" in secret)) {
+    throw new StoreEncryptionError(`Store is encrypted with a key file; set ${KEY_FILE_ENV} or pass --key-file`);
+  }
+
+  const material = "passphrase" in secret ? Buffer.from(secret.passphrase, "utf8") : await readKeyFile(secret.keyFile);
+  const id = createHash("sha256").update(JSON.stringify(kdf)).update(material).digest("hex");
+  if (cachedKey?.id === id) return cachedKey.key;
+
+  const salt = Buffer.from(kdf.salt, "base64");
+  const key = await new Promise<Buffer>((resolve, reject) => {
+    if (kdf.name === "scrypt") {
+      const options = { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r };
+      scrypt(material, salt, KEY_LENGTH, options, (err, derived) => (err ? reject(err) : resolve(derived)));
+    } else {
+      hkdf("sha256", material, salt, ENCRYPTED_STORE_FORMAT, KEY_LENGTH, (err, derived) =>
+        err ? reject(err) : resolve(Buffer.from(derived)),
+      );
+    }
+  });
+  cachedKey = { id, key };
+  return key;
+}
+
+/**
+ * Fresh KDF parameters (new salt) for a secret.
+ */
+export function createKdfParams(secret: StoreSecret): KdfParams {
+  const salt = randomBytes(SALT_LENGTH).toString("base64");
+  return "passphrase" in secret ? { name: "scrypt", salt, ...SCRYPT_PARAMS } : { name: "hkdf-sha256", salt };
+}
+
+function additionalData(kdf: KdfParams): Buffer {
+  return Buffer.from(JSON.stringify({ format: ENCRYPTED_STORE_FORMAT, version: 1, kdf, cipher: CIPHER }), "utf8");
+}
+
+/**
+ * Encrypts store JSON with AES-256-GCM and a fresh IV.
+ *
+ * @param kdf - KDF parameters to reuse (e.g. from the existing file); new ones when undefined
+ */
+export async function encryptStoreData(
+  plaintext: string,
+  secret: StoreSecret,
+  kdf: KdfParams = createKdfParams(secret),
+): Promise<EncryptedStoreFile> {
+  const key = await deriveKey(kdf, secret);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(additionalData(kdf));
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    format: ENCRYPTED_STORE_FORMAT,
+    version: 1,
+    kdf,
+    cipher: CIPHER,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypts an encrypted store file back to its JSON text.
+ *
+ * @throws StoreEncryptionError for a wrong secret, tampered file or unsupported format
+ */
+export async function decryptStoreData(file: EncryptedStoreFile, secret: StoreSecret): Promise<string> {
+  if (file.version !== 1 || file.cipher !== CIPHER || !file.kdf) {
+    throw new StoreEncryptionError(`Unsupported encrypted store (version ${file.version}, cipher ${file.cipher})`);
+  }
+
+  const key = await deriveKey(file.kdf, secret);
+  try {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(file.iv, "base64"));
+    decipher.setAAD(additionalData(file.kdf));
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new StoreEncryptionError(`Cannot decrypt store: wrong ${describeSecret(file.kdf)} or corrupted file`);
+  }
+}
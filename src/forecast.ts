@@ -0,0 +1,105 @@
+import type { QuotaIdentity } from "./oauth/constants.js";
+import type { QuotaHistoryEntry } from "./history.js";
+
+/** Minimum span between first and last sample for a usable rate (5 minutes). */
+const MIN_SAMPLE_SPAN_MS = 5 * 60 * 1000;
+
+/**
+ * Burn-rate forecast for a single account + identity + model.
+ */
+export interface ModelForecast {
+  email: string;
+  identity: QuotaIdentity;
+  model: string;
+  remainingPercent: number; // Latest reading
+  resetTime: string; // Latest reading, passthrough from API
+  samples: number; // Readings used for the rate (since the last reset)
+  ratePerHour?: number; // Percentage points consumed per hour; undefined without enough data
+  exhaustsAt?: number; // Unix ms when remaining hits 0 at the current rate
+  exhaustsBeforeReset?: boolean; // True if exhaustsAt comes before resetTime
+}
+
+function forecastKey(entry: { email: string; identity: QuotaIdentity; model: string }): string {
+  return `${entry.email}\u0000${entry.identity}\u0000${entry.model}`;
+}
+
+/**
+ * Computes a forecast from readings of a single account/identity/model.
+ * Only readings since the last quota reset are used: walking back from the
+ * newest reading, we stop at the first increase in remaining quota or at a
+ * reading whose reset time had already passed by the next reading.
+ *
+ * @param readings - Readings for one key, in any order (must be non-empty)
+ */
+export function forecastFromReadings(readings: QuotaHistoryEntry[]): ModelForecast {
+  const sorted = [...readings].sort((a, b) => a.fetchedAt - b.fetchedAt);
+  const latest = sorted[sorted.length - 1];
+
+  let startIndex = sorted.length - 1;
+  while (startIndex > 0) {
+    const prev = sorted[startIndex - 1];
+    const curr = sorted[startIndex];
+    const prevResetAt = Date.parse(prev.resetTime);
+    const resetBetween = !isNaN(prevResetAt) && prevResetAt <= curr.fetchedAt;
+    if (prev.remainingPercent < curr.remainingPercent || resetBetween) break;
+    startIndex--;
+  }
+  const window = sorted.slice(startIndex);
+  const first = window[0];
+
+  const forecast: ModelForecast = {
+    email: latest.email,
+    identity: latest.identity,
+    model: latest.model,
+    remainingPercent: latest.remainingPercent,
+    resetTime: latest.resetTime,
+    samples: window.length,
+  };
+
+  const spanMs = latest.fetchedAt - first.fetchedAt;
+  if (window.length < 2 || spanMs < MIN_SAMPLE_SPAN_MS) {
+    return forecast;
+  }
+
+  const consumed = first.remainingPercent - latest.remainingPercent;
+  forecast.ratePerHour = (consumed / spanMs) * 60 * 60 * 1000;
+
+  if (consumed > 0) {
+    forecast.exhaustsAt = latest.fetchedAt + (latest.remainingPercent / consumed) * spanMs;
+    const resetAt = Date.parse(latest.resetTime);
+    forecast.exhaustsBeforeReset = isNaN(resetAt) ? undefined : forecast.exhaustsAt < resetAt;
+  } else {
+    forecast.exhaustsBeforeReset = false;
+  }
+
+  return forecast;
+}
+
+/**
+ * Groups readings by account/identity/model and forecasts each group.
+ */
+export function computeForecasts(entries: QuotaHistoryEntry[]): ModelForecast[] {
+  const groups = new Map<string, QuotaHistoryEntry[]>();
+  for (const entry of entries) {
+    const key = forecastKey(entry);
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  return [...groups.values()].map(forecastFromReadings);
+}
+
+/**
+ * Finds the forecast matching an account/identity/model, if any.
+ */
+export function findForecast(
+  forecasts: ModelForecast[],
+  key: { email: string; identity: QuotaIdentity; model: string },
+): ModelForecast | undefined {
+  const wanted = forecastKey(key);
+  return forecasts.find((forecast) => forecastKey(forecast) === wanted);
+}
@@ -0,0 +1,24 @@
+/**
+ * Minimal glob matching for model names and similar identifiers.
+ * Supports `*` (any run of characters) and `?` (single character); matching
+ * is case-insensitive and anchored to the whole value.
+ */
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Returns true if the value matches the glob pattern.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
@@ -145,6 +145,26 @@ function buildHeaders(accessToken: string): Record<string, string> {
   };
 }
 
+/**
+ * Outcome of a single loadCodeAssist endpoint attempt.
+ */
+export interface ProjectDiscoveryAttempt {
+  endpoint: string;
+  status?: number; // HTTP status, undefined on network error
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Detailed result of project ID discovery.
+ */
+export interface ProjectDiscovery {
+  projectId: string;
+  source: "stored" | "discovered" | "default";
+  endpoint?: string; // Endpoint that answered, when discovered
+  attempts: ProjectDiscoveryAttempt[];
+}
+
 /**
  * Ensures a project ID is available, discovering it if necessary.
  *
@@ -159,6 +179,19 @@ export async function ensureProjectId(input: {
   projectId?: string;
   fetchImpl?: FetchLike;
 }): Promise<string> {
+  const discovery = await discoverProjectId(input);
+  return discovery.projectId;
+}
+
+/**
+ * Like ensureProjectId, but also reports where the project ID came from and
+ * how each loadCodeAssist endpoint responded (used by `doctor`).
+ */
+export async function discoverProjectId(input: {
+  accessToken: string;
+  projectId?: string;
+  fetchImpl?: FetchLike;
+}): Promise<ProjectDiscovery> {
   // Validate access token
   if (!input.accessToken || input.accessToken.trim().length === 0) {
     throw new ProjectError({
@@ -177,7 +210,7 @@ export async function ensureProjectId(input: {
         endpoint: "",
       });
     }
-    return input.projectId.trim();
+    return { projectId: input.projectId.trim(), source: "stored", attempts: [] };
   }
 
   const fetchImpl = input.fetchImpl ?? fetch;
@@ -187,9 +220,11 @@ export async function ensureProjectId(input: {
       ideType: "ANTIGRAVITY",
     },
   });
+  const attempts: ProjectDiscoveryAttempt[] = [];
 
   // Try each endpoint in order
   for (const endpoint of LOAD_CODE_ASSIST_ENDPOINTS) {
+    const startedAt = Date.now();
     try {
       const res = await fetchWithTimeout(fetchImpl, endpoint, {
         method: "POST",
@@ -199,22 +234,29 @@ export async function ensureProjectId(input: {
 
       if (!res.ok) {
         // Try next endpoint on failure
+        attempts.push({ endpoint, status: res.status, durationMs: Date.now() - startedAt });
         continue;
       }
 
       const json = await readJsonSafe(res);
       const projectId = extractProjectId(json);
-      
+      attempts.push({ endpoint, status: res.status, durationMs: Date.now() - startedAt });
+
       if (projectId) {
-        return projectId;
+        return { projectId, source: "discovered", endpoint, attempts };
       }
       // Response was OK but no project ID - try next endpoint
-    } catch {
+    } catch (err) {
       // Network error - try next endpoint
+      attempts.push({
+        endpoint,
+        error: err instanceof Error ? err.message : String(err),
+        durationMs: Date.now() - startedAt,
+      });
       continue;
     }
   }
 
   // All endpoints failed or returned no project ID - use default
-  return DEFAULT_PROJECT_ID;
+  return { projectId: DEFAULT_PROJECT_ID, source: "default", attempts };
 }
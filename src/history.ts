@@ -0,0 +1,170 @@
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { QuotaIdentity } from "./oauth/constants.js";
+import type { AccountQuotaReport } from "./commands/status.js";
+import { getOpencodeConfigDir } from "./storage.js";
+import { withFileLock } from "./lock.js";
+
+/**
+ * One recorded quota reading (one line of the JSONL history file).
+ */
+export type QuotaHistoryEntry = {
+  email: string;
+  identity: QuotaIdentity;
+  model: string;
+  remainingPercent: number;
+  resetTime: string;
+  fetchedAt: number; // Unix milliseconds
+};
+
+export type QuotaHistoryQuery = {
+  email?: string;
+  identity?: QuotaIdentity;
+  model?: string;
+  since?: number; // Unix milliseconds, inclusive
+  until?: number; // Unix milliseconds, inclusive
+};
+
+const HISTORY_FILENAME = "usage-google-history.jsonl";
+
+/** Entries older than this are dropped on compaction (30 days). */
+export const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Compaction runs once the file grows past this size (2 MB). */
+const HISTORY_COMPACT_BYTES = 2 * 1024 * 1024;
+
+export function getHistoryPath(opts?: { configDir?: string }): string {
+  const configDir = opts?.configDir ?? getOpencodeConfigDir();
+  return path.join(configDir, HISTORY_FILENAME);
+}
+
+/**
+ * Flattens quota reports into one history entry per model.
+ */
+export function reportsToHistoryEntries(reports: AccountQuotaReport[]): QuotaHistoryEntry[] {
+  return reports.flatMap((report) =>
+    report.models.map((model) => ({
+      email: report.email,
+      identity: report.identity,
+      model: model.model,
+      remainingPercent: model.remainingPercent,
+      resetTime: model.resetTime,
+      fetchedAt: report.fetchedAt,
+    })),
+  );
+}
+
+function isHistoryEntry(value: unknown): value is QuotaHistoryEntry {
+  const entry = value as QuotaHistoryEntry;
+  return (
+    !!entry &&
+    typeof entry.email === "string" &&
+    typeof entry.identity === "string" &&
+    typeof entry.model === "string" &&
+    typeof entry.remainingPercent === "number" &&
+    typeof entry.fetchedAt === "number"
+  );
+}
+
+/**
+ * Parses JSONL history content, skipping blank or malformed lines.
+ */
+function parseHistory(raw: string): QuotaHistoryEntry[] {
+  const entries: QuotaHistoryEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (isHistoryEntry(parsed)) entries.push(parsed);
+    } catch {
+      // Partial line from an interrupted write - ignore
+    }
+  }
+  return entries;
+}
+
+function serializeHistory(entries: QuotaHistoryEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+}
+
+/**
+ * Reads history entries matching the query, oldest first.
+ */
+export async function readHistory(
+  opts: { configDir?: string } | undefined,
+  query: QuotaHistoryQuery = {},
+): Promise<QuotaHistoryEntry[]> {
+  let raw: string;
+  try {
+    raw = await readFile(getHistoryPath(opts), "utf8");
+  } catch {
+    // No history recorded yet
+    return [];
+  }
+
+  return parseHistory(raw)
+    .filter((entry) => !query.email || entry.email === query.email)
+    .filter((entry) => !query.identity || entry.identity === query.identity)
+    .filter((entry) => !query.model || entry.model === query.model)
+    .filter((entry) => query.since === undefined || entry.fetchedAt >= query.since)
+    .filter((entry) => query.until === undefined || entry.fetchedAt <= query.until)
+    .sort((a, b) => a.fetchedAt - b.fetchedAt);
+}
+
+/**
+ * Rewrites the history file keeping only entries newer than the retention window.
+ * Runs under the history lock, so appends from parallel status runs aren't lost.
+ */
+export async function compactHistory(
+  opts: { configDir?: string } | undefined,
+  retentionMs = HISTORY_RETENTION_MS,
+): Promise<void> {
+  const historyPath = getHistoryPath(opts);
+  try {
+    await stat(historyPath);
+  } catch {
+    // Nothing recorded (the lock needs the directory to exist)
+    return;
+  }
+
+  await withFileLock(historyPath, async () => {
+    let raw: string;
+    try {
+      raw = await readFile(historyPath, "utf8");
+    } catch {
+      return;
+    }
+
+    const cutoff = Date.now() - retentionMs;
+    const kept = parseHistory(raw).filter((entry) => entry.fetchedAt >= cutoff);
+
+    // Unique, so parallel compactions don't share it
+    const tempPath = `${historyPath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+    await writeFile(tempPath, serializeHistory(kept), { encoding: "utf8", mode: 0o600 });
+    await rename(tempPath, historyPath);
+  });
+}
+
+/**
+ * Appends quota readings to the history file, compacting it when it grows large.
+ */
+export async function appendHistory(
+  opts: { configDir?: string } | undefined,
+  entries: QuotaHistoryEntry[],
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const historyPath = getHistoryPath(opts);
+  await mkdir(path.dirname(historyPath), { recursive: true });
+  // Locked so an append can't land between a compaction's read and rename
+  await withFileLock(historyPath, () =>
+    appendFile(historyPath, serializeHistory(entries), { encoding: "utf8", mode: 0o600 }),
+  );
+
+  const { size } = await stat(historyPath);
+  if (size > HISTORY_COMPACT_BYTES) {
+    await compactHistory(opts);
+  }
+}
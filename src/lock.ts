@@ -0,0 +1,136 @@
+/**
+ * Advisory cross-process file locks. A lock is a `<file>.lock` sibling created
+ * exclusively; it records the owner so a lock left behind by a crashed or
+ * killed process can be detected and taken over.
+ */
+
+import { randomBytes } from "node:crypto";
+import { open, readFile, unlink } from "node:fs/promises";
+import os from "node:os";
+
+export interface LockOptions {
+  /** Give up waiting after this many ms (default 15s). */
+  timeoutMs?: number;
+  /** Treat a lock older than this many ms as stale (default 60s). */
+  staleMs?: number;
+  /** Delay between attempts in ms (default 50). */
+  retryMs?: number;
+}
+
+/**
+ * Contents of a lock file.
+ */
+type LockOwner = {
+  pid: number;
+  hostname: string;
+  createdAt: number; // Unix ms
+  token: string; // Distinguishes this acquisition from a later one by the same process
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_STALE_MS = 60_000;
+const DEFAULT_RETRY_MS = 50;
+
+export class LockTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LockTimeoutError";
+  }
+}
+
+export function getLockPath(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * A lock is stale when it is older than staleMs, its owner on this host is
+ * gone, or its contents are unreadable (a crash between create and write).
+ */
+async function isStale(lockPath: string, staleMs: number): Promise<boolean> {
+  let owner: Partial<LockOwner>;
+  try {
+    owner = JSON.parse(await readFile(lockPath, "utf8")) as Partial<LockOwner>;
+  } catch (error) {
+    // Vanished in the meantime: not stale, just retry
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    return true;
+  }
+
+  if (typeof owner.createdAt !== "number" || Date.now() - owner.createdAt > staleMs) return true;
+  if (owner.hostname === os.hostname() && typeof owner.pid === "number" && owner.pid !== process.pid) {
+    return !isProcessAlive(owner.pid);
+  }
+  return false;
+}
+
+async function tryAcquire(lockPath: string, owner: LockOwner): Promise<boolean> {
+  try {
+    const handle = await open(lockPath, "wx", 0o600);
+    try {
+      await handle.writeFile(JSON.stringify(owner), "utf8");
+    } finally {
+      await handle.close();
+    }
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw error;
+  }
+}
+
+async function release(lockPath: string, token: string): Promise<void> {
+  try {
+    const owner = JSON.parse(await readFile(lockPath, "utf8")) as Partial<LockOwner>;
+    // Only remove our own lock; a stale-lock takeover may have replaced it
+    if (owner.token === token) await unlink(lockPath);
+  } catch {
+    // Already gone or unreadable - nothing to release
+  }
+}
+
+/**
+ * Runs fn while holding the advisory lock for filePath, waiting for other
+ * holders and taking over stale locks.
+ *
+ * @throws LockTimeoutError if the lock can't be acquired within timeoutMs
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>, options: LockOptions = {}): Promise<T> {
+  const lockPath = getLockPath(filePath);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    createdAt: Date.now(),
+    token: randomBytes(8).toString("hex"),
+  };
+
+  const deadline = Date.now() + timeoutMs;
+  while (!(await tryAcquire(lockPath, { ...owner, createdAt: Date.now() }))) {
+    if (await isStale(lockPath, staleMs)) {
+      await unlink(lockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(`Timed out waiting for ${lockPath}; remove it if no usage-google process is running`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await release(lockPath, owner.token);
+  }
+}
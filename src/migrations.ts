@@ -0,0 +1,154 @@
+/**
+ * Store schema versions and the migrations between them. Every store file is
+ * validated against its own version, migrated one step at a time up to
+ * STORE_VERSION, and validated again after each step.
+ */
+
+import { randomUUID } from "node:crypto";
+
+import type { UsageOpencodeStore } from "./storage.js";
+
+/** Store version written by this build. */
+export const STORE_VERSION = 2;
+
+/**
+ * A single upgrade step from `from` to `from + 1`.
+ */
+export interface StoreMigration {
+  from: number;
+  description: string;
+  migrate: (store: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export class StoreMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StoreMigrationError";
+  }
+}
+
+/**
+ * Thrown for a store written by a newer build; loading must not fall back to
+ * an empty store that the next save would write over it.
+ */
+export class StoreVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StoreVersionError";
+  }
+}
+
+type RawAccount = Record<string, unknown>;
+
+const IDENTITY_FIELDS = ["antigravity", "geminiCli"] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Checks the parts shared by every version: accounts with an email and
+ * identity objects. Tokens may be absent when a credential helper holds them.
+ */
+function validateAccounts(store: Record<string, unknown>): string | undefined {
+  if (!Array.isArray(store.accounts)) return "accounts must be an array";
+
+  for (const [index, account] of store.accounts.entries()) {
+    if (!isObject(account)) return `accounts[${index}] must be an object`;
+    if (typeof account.email !== "string" || !account.email) return `accounts[${index}].email must be a string`;
+    for (const field of IDENTITY_FIELDS) {
+      const identity = account[field];
+      if (identity === undefined) continue;
+      if (!isObject(identity)) return `${account.email}: ${field} must be an object`;
+      if (identity.refreshToken !== undefined && typeof identity.refreshToken !== "string") {
+        return `${account.email}: ${field}.refreshToken must be a string`;
+      }
+      if (identity.projectId !== undefined && typeof identity.projectId !== "string") {
+        return `${account.email}: ${field}.projectId must be a string`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Per-version validators.
+ *
+ * @returns A description of the first problem, or undefined when valid
+ */
+const VALIDATORS: Record<number, (store: Record<string, unknown>) => string | undefined> = {
+  1: validateAccounts,
+  2: (store) => {
+    const problem = validateAccounts(store);
+    if (problem) return problem;
+
+    const ids = new Set<string>();
+    for (const account of store.accounts as RawAccount[]) {
+      if (typeof account.id !== "string" || !account.id) return `${account.email}: id must be a string`;
+      if (ids.has(account.id)) return `${account.email}: duplicate id ${account.id}`;
+      ids.add(account.id);
+      if (account.projectId !== undefined) return `${account.email}: account-level projectId is not allowed`;
+    }
+    return undefined;
+  },
+};
+
+/**
+ * Upgrade steps, in order. Append a step (and a validator) for every new version.
+ */
+export const STORE_MIGRATIONS: StoreMigration[] = [
+  {
+    from: 1,
+    description: "Move account-level projectId onto identities and give each account a stable id",
+    migrate: (store) => ({
+      ...store,
+      version: 2,
+      accounts: (store.accounts as RawAccount[]).map((account) => {
+        const { projectId, ...rest } = account;
+        const next: RawAccount = { id: randomUUID(), ...rest };
+        for (const field of IDENTITY_FIELDS) {
+          const identity = next[field] as Record<string, unknown> | undefined;
+          if (identity && identity.projectId === undefined && projectId !== undefined) {
+            next[field] = { ...identity, projectId };
+          }
+        }
+        return next;
+      }),
+    }),
+  },
+];
+
+/**
+ * Validates a parsed store and migrates it to STORE_VERSION.
+ *
+ * @returns The current-version store and the version it was read as
+ * @throws StoreMigrationError if the store is invalid or has an unknown version
+ * @throws StoreVersionError if it was written by a newer build (never downgraded)
+ */
+export function migrateStore(parsed: unknown): { store: UsageOpencodeStore; from: number } {
+  if (!isObject(parsed)) throw new StoreMigrationError("Store must contain a JSON object");
+
+  const from = parsed.version;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 1) {
+    throw new StoreMigrationError(`Unknown store version: ${JSON.stringify(from)}`);
+  }
+  if (from > STORE_VERSION) {
+    throw new StoreVersionError(
+      `Store version ${from} was written by a newer usage-google (this one supports up to ${STORE_VERSION}). ` +
+        "Upgrade usage-google instead; the file was left unchanged.",
+    );
+  }
+
+  let store = parsed;
+  for (let version = from; ; version++) {
+    const problem = VALIDATORS[version]?.(store);
+    if (problem) throw new StoreMigrationError(`Invalid version ${version} store: ${problem}`);
+    if (version === STORE_VERSION) break;
+
+    const step = STORE_MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) throw new StoreMigrationError(`No migration from store version ${version}`);
+    store = step.migrate(store);
+  }
+
+  return { store: store as UsageOpencodeStore, from };
+}
@@ -1,6 +1,7 @@
 import { getOAuthClient, type QuotaIdentity } from "./constants.js";
 
 export const GOOGLE_OAUTH_TOKEN_ENDPOINT = "https://oauth2.googleapis.com/token";
+export const GOOGLE_OAUTH_REVOKE_ENDPOINT = "https://oauth2.googleapis.com/revoke";
 
 /** Timeout for token endpoint requests (10 seconds). */
 const TOKEN_TIMEOUT_MS = 10000;
@@ -178,3 +179,55 @@ export async function refreshAccessToken(input: {
     expiresAt: toExpiresAt(expiresIn),
   };
 }
+
+/**
+ * Revokes a refresh (or access) token at Google's OAuth revoke endpoint.
+ * A token that is already invalid (HTTP 400 invalid_token) counts as revoked.
+ */
+export async function revokeToken(input: {
+  token: string;
+  fetchImpl?: FetchLike;
+}): Promise<void> {
+  const fetchImpl = input.fetchImpl ?? fetch;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TOKEN_TIMEOUT_MS);
+
+  let res: Response;
+  try {
+    res = await fetchImpl(GOOGLE_OAUTH_REVOKE_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "content-type": "application/x-www-form-urlencoded",
+      },
+      body: buildFormBody({ token: input.token }),
+      signal: controller.signal,
+    });
+  } catch (err) {
+    clearTimeout(timeoutId);
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new OAuthTokenError({
+        message: `Revoke request timed out after ${TOKEN_TIMEOUT_MS}ms`,
+        status: 0,
+        endpoint: GOOGLE_OAUTH_REVOKE_ENDPOINT,
+      });
+    }
+    throw err;
+  }
+  clearTimeout(timeoutId);
+
+  if (res.ok) return;
+
+  const json = await readJsonSafe(res);
+  if (res.status === 400 && json?.error === "invalid_token") {
+    // Already revoked or expired - nothing left to do
+    return;
+  }
+
+  throw new OAuthTokenError({
+    message: "OAuth token revoke failed",
+    status: res.status,
+    endpoint: GOOGLE_OAUTH_REVOKE_ENDPOINT,
+    error: json?.error,
+    errorDescription: json?.error_description,
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * ANSI color and bar-gauge helpers for the table view.
+ * Styling is applied after padding so column widths stay correct.
+ */
+
+export type ColorMode = "always" | "never" | "auto";
+
+export type ColorStyle = "red" | "yellow" | "green" | "dim";
+
+/**
+ * Remaining-percent cut points: below `red` is red, below `yellow` is yellow,
+ * anything else is green.
+ */
+export interface ColorCutoffs {
+  red: number;
+  yellow: number;
+}
+
+export const DEFAULT_COLOR_CUTOFFS: ColorCutoffs = { red: 20, yellow: 50 };
+
+/** Width of the inline remaining-quota bar, in cells. */
+export const BAR_WIDTH = 10;
+
+const ANSI_CODES: Record<ColorStyle, [number, number]> = {
+  red: [31, 39],
+  yellow: [33, 39],
+  green: [32, 39],
+  dim: [2, 22],
+};
+
+/**
+ * Decides whether to emit color. "auto" colors only a TTY and honors NO_COLOR
+ * (any non-empty value disables color, see https://no-color.org).
+ */
+export function shouldUseColor(
+  mode: ColorMode,
+  isTTY: boolean,
+  env: Record<string, string | undefined> = process.env,
+): boolean {
+  if (mode === "always") return true;
+  if (mode === "never") return false;
+  return isTTY && !env.NO_COLOR;
+}
+
+/**
+ * Parses a "red,yellow" cut point pair, e.g. "20,50".
+ *
+ * @returns The cutoffs, or undefined if malformed or red > yellow
+ */
+export function parseColorCutoffs(spec: string): ColorCutoffs | undefined {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*$/.exec(spec);
+  if (!match) return undefined;
+  const red = Number(match[1]);
+  const yellow = Number(match[2]);
+  if (red > yellow || yellow > 100) return undefined;
+  return { red, yellow };
+}
+
+/**
+ * Wraps text in an ANSI style when enabled.
+ */
+export function paint(text: string, style: ColorStyle | undefined, enabled: boolean): string {
+  if (!enabled || !style) return text;
+  const [open, close] = ANSI_CODES[style];
+  return `\x1b[${open}m${text}\x1b[${close}m`;
+}
+
+/**
+ * Picks the color for a remaining percentage.
+ */
+export function remainingStyle(percent: number, cutoffs: ColorCutoffs = DEFAULT_COLOR_CUTOFFS): ColorStyle {
+  if (percent < cutoffs.red) return "red";
+  if (percent < cutoffs.yellow) return "yellow";
+  return "green";
+}
+
+/**
+ * Renders a fixed-width bar gauge for a remaining percentage (e.g. "██████░░░░").
+ */
+export function renderBar(percent: number, width = BAR_WIDTH): string {
+  const filled = Math.round((Math.min(100, Math.max(0, percent)) / 100) * width);
+  return "█".repeat(filled) + "░".repeat(width - filled);
+}
@@ -0,0 +1,160 @@
+/**
+ * CSV/TSV output formatters for quota status.
+ * One row per account/identity/model (or per failed identity) for spreadsheets.
+ */
+
+import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
+import { sortModelRows, type SortSpec, type StatusColumn } from "../selection.js";
+
+const HEADER = [
+  "email",
+  "identity",
+  "projectId",
+  "model",
+  "remainingPercent",
+  "resetTime",
+  "secondsToReset",
+  "status",
+  "error",
+];
+
+/**
+ * Header fields per status column. Burn/h and Exhausts have no CSV fields (the CLI rejects them).
+ */
+const FIELDS: Record<StatusColumn, string[]> = {
+  email: ["email"],
+  identity: ["identity"],
+  project: ["projectId"],
+  model: ["model"],
+  remaining: ["remainingPercent"],
+  reset: ["resetTime", "secondsToReset"],
+  status: ["status"],
+  error: ["error"],
+  burn: [],
+  exhausts: [],
+};
+
+/**
+ * Selected columns that CSV/TSV can't show (the forecast columns).
+ */
+export function unsupportedDelimitedColumns(columns: StatusColumn[]): StatusColumn[] {
+  return columns.filter((column) => FIELDS[column].length === 0);
+}
+
+/**
+ * Row order and column selection for CSV/TSV.
+ */
+export interface DelimitedOptions {
+  /** Row order across accounts; report order when undefined. */
+  sort?: SortSpec;
+  /** Columns to include, in order (default: every field). */
+  columns?: StatusColumn[];
+}
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break (RFC 4180).
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * TSV has no quoting: tabs and line breaks inside a field become spaces.
+ */
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, " ");
+}
+
+function errorStatus(error: IdentityError): string {
+  if (error.needsRelogin) return "needs_relogin";
+  if (error.isForbidden) return "forbidden";
+  return "error";
+}
+
+/**
+ * Builds the unescaped rows shared by CSV and TSV.
+ */
+function buildRows(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  now: number,
+  options: DelimitedOptions,
+): string[][] {
+  const rows: string[][] = [];
+  const modelRows = options.sort
+    ? sortModelRows(reports, options.sort)
+    : reports.flatMap((report) => report.models.map((model) => ({ report, model })));
+
+  for (const { report, model } of modelRows) {
+    const resetAt = Date.parse(model.resetTime);
+    const valid = !isNaN(resetAt);
+    rows.push([
+      report.email,
+      report.identity,
+      report.projectId,
+      model.model,
+      String(model.remainingPercent),
+      valid ? new Date(resetAt).toISOString() : model.resetTime,
+      valid ? String(Math.max(0, Math.round((resetAt - now) / 1000))) : "",
+      "ok",
+      "",
+    ]);
+  }
+
+  for (const error of errors) {
+    rows.push([error.email, error.identity, "", "", "", "", "", errorStatus(error), error.error]);
+  }
+
+  return rows;
+}
+
+/**
+ * Header plus rows, narrowed to the selected columns.
+ */
+function buildTable(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  now: number,
+  options: DelimitedOptions,
+): string[][] {
+  const table = [HEADER, ...buildRows(reports, errors, now, options)];
+  if (!options.columns) return table;
+  const indexes = options.columns.flatMap((column) => FIELDS[column]).map((field) => HEADER.indexOf(field));
+  return table.map((row) => indexes.map((index) => row[index]));
+}
+
+/**
+ * Renders quota reports and errors as CSV with a header row.
+ *
+ * @param reports - Successfully fetched quota reports
+ * @param errors - Identity errors (one row each, with empty model columns)
+ * @param now - Current time in Unix ms (for secondsToReset)
+ * @param options - Row order and columns
+ * @returns CSV text ending with a newline
+ */
+export function renderCsv(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  now = Date.now(),
+  options: DelimitedOptions = {},
+): string {
+  return buildTable(reports, errors, now, options).map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Renders quota reports and errors as TSV with a header row.
+ *
+ * @param reports - Successfully fetched quota reports
+ * @param errors - Identity errors (one row each, with empty model columns)
+ * @param now - Current time in Unix ms (for secondsToReset)
+ * @param options - Row order and columns
+ * @returns TSV text ending with a newline
+ */
+export function renderTsv(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  now = Date.now(),
+  options: DelimitedOptions = {},
+): string {
+  return buildTable(reports, errors, now, options).map((row) => row.map(tsvField).join("\t")).join("\n") + "\n";
+}
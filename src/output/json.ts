@@ -3,27 +3,197 @@
  * Renders structured JSON output for programmatic consumption.
  */
 
+import type { QuotaIdentity } from "../oauth/constants.js";
 import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
+import type { AccountSummary } from "../commands/accounts.js";
+import type { QuotaHistoryEntry } from "../history.js";
+import type { ModelForecast } from "../forecast.js";
+import type { ModelQuota } from "../google/quota.js";
+import type { ModelPool, ModelPoolEntry } from "../pivot.js";
+import type { DoctorCheck, IdentityDiagnosis } from "../commands/doctor.js";
+import type { UsageGoogleConfig } from "../config.js";
+import { TOOL_NAME, TOOL_VERSION } from "../version.js";
 
 /**
- * JSON output structure.
+ * Version of the status JSON envelope. Bump on breaking changes to the shape
+ * described by schema/status.schema.json.
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Filters that narrowed the reports, echoed back in the envelope.
+ */
+export interface JsonFilters {
+  account?: string;
+  identity?: QuotaIdentity;
+  model?: string;
+  models?: string[]; // status --model globs
+}
+
+/**
+ * Reset fields derived from `resetTime`; absent when it isn't a parseable date.
+ */
+export interface JsonResetFields {
+  resetTimeIso?: string; // Normalized ISO timestamp (UTC)
+  resetInSeconds?: number; // Seconds until reset at generatedAt (0 once passed)
+}
+
+export type JsonModelQuota = ModelQuota & JsonResetFields;
+
+export type JsonQuotaReport = Omit<AccountQuotaReport, "models"> & { models: JsonModelQuota[] };
+
+export type JsonModelPool = Omit<ModelPool, "entries"> & { entries: Array<ModelPoolEntry & JsonResetFields> };
+
+/**
+ * JSON output structure (see schema/status.schema.json).
  */
 export interface JsonOutput {
-  reports: AccountQuotaReport[];
+  schemaVersion: number;
+  generatedAt: string; // ISO timestamp
+  tool: { name: string; version: string };
+  filters: JsonFilters;
+  reports: JsonQuotaReport[];
   errors: IdentityError[];
+  forecasts?: ModelForecast[];
+  byModel?: JsonModelPool[];
+}
+
+/**
+ * Optional extras for the status JSON envelope.
+ */
+export interface JsonOptions {
+  /** Burn-rate forecasts (status --forecast). */
+  forecasts?: ModelForecast[];
+  /** Per-model pools (status --by model). */
+  byModel?: ModelPool[];
+  /** Filters applied to the reports. */
+  filters?: JsonFilters;
+  /** Envelope timestamp in Unix ms (default: now). */
+  now?: number;
 }
 
 /**
- * Renders quota reports and errors as JSON.
+ * Adds resetTimeIso/resetInSeconds next to a passthrough resetTime.
+ */
+function withResetFields<T extends { resetTime: string }>(item: T, now: number): T & JsonResetFields {
+  const resetAt = Date.parse(item.resetTime);
+  if (isNaN(resetAt)) return item;
+  return {
+    ...item,
+    resetTimeIso: new Date(resetAt).toISOString(),
+    resetInSeconds: Math.max(0, Math.round((resetAt - now) / 1000)),
+  };
+}
+
+/**
+ * Converts a report to its JSON shape (models gain reset fields).
+ *
+ * @param now - Reference time in Unix ms for resetInSeconds
+ */
+export function toJsonReport(report: AccountQuotaReport, now: number): JsonQuotaReport {
+  return { ...report, models: report.models.map((model) => withResetFields(model, now)) };
+}
+
+/**
+ * Builds the versioned status envelope.
  *
  * @param reports - Successfully fetched quota reports
  * @param errors - Identity errors (failed fetches)
- * @returns Pretty-printed JSON string
+ * @param options - Forecasts, applied filters and timestamp
  */
-export function renderJson(reports: AccountQuotaReport[], errors: IdentityError[]): string {
-  const output: JsonOutput = {
-    reports,
+export function buildJsonOutput(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  options: JsonOptions = {},
+): JsonOutput {
+  const filters = Object.fromEntries(
+    Object.entries(options.filters ?? {}).filter(([, value]) => value !== undefined),
+  ) as JsonFilters;
+  const now = options.now ?? Date.now();
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    tool: { name: TOOL_NAME, version: TOOL_VERSION },
+    filters,
+    reports: reports.map((report) => toJsonReport(report, now)),
     errors,
+    ...(options.forecasts ? { forecasts: options.forecasts } : {}),
+    ...(options.byModel
+      ? {
+          byModel: options.byModel.map((pool) => ({
+            ...pool,
+            entries: pool.entries.map((entry) => withResetFields(entry, now)),
+          })),
+        }
+      : {}),
   };
-  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Renders quota reports and errors as a versioned JSON envelope.
+ *
+ * @param reports - Successfully fetched quota reports
+ * @param errors - Identity errors (failed fetches)
+ * @param options - Forecasts, applied filters and timestamp
+ * @returns Pretty-printed JSON string
+ */
+export function renderJson(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  options: JsonOptions = {},
+): string {
+  return JSON.stringify(buildJsonOutput(reports, errors, options), null, 2);
+}
+
+/**
+ * Renders stored account summaries as JSON.
+ *
+ * @param accounts - Token-free account summaries
+ * @returns Pretty-printed JSON string
+ */
+export function renderAccountsJson(accounts: AccountSummary[]): string {
+  return JSON.stringify({ accounts }, null, 2);
+}
+
+/**
+ * Renders recorded quota readings as JSON.
+ *
+ * @param entries - History entries
+ * @returns Pretty-printed JSON string
+ */
+export function renderHistoryJson(entries: QuotaHistoryEntry[]): string {
+  return JSON.stringify({ entries }, null, 2);
+}
+
+/**
+ * Renders burn-rate forecasts as JSON.
+ *
+ * @param forecasts - Per-model forecasts
+ * @returns Pretty-printed JSON string
+ */
+export function renderForecastJson(forecasts: ModelForecast[]): string {
+  return JSON.stringify({ forecasts }, null, 2);
+}
+
+/**
+ * Renders doctor results as JSON.
+ *
+ * @param healthy - True when no check failed
+ * @param store - Store file checks
+ * @param identities - Per-identity pipeline checks
+ * @returns Pretty-printed JSON string
+ */
+export function renderDoctorJson(healthy: boolean, store: DoctorCheck[], identities: IdentityDiagnosis[]): string {
+  return JSON.stringify({ healthy, store, identities }, null, 2);
+}
+
+/**
+ * Renders the user config as JSON.
+ *
+ * @param configPath - Location of the config file
+ * @param config - Loaded config
+ * @returns Pretty-printed JSON string
+ */
+export function renderConfigJson(configPath: string, config: UsageGoogleConfig): string {
+  return JSON.stringify({ path: configPath, config }, null, 2);
 }
@@ -0,0 +1,128 @@
+/**
+ * Markdown output formatter for quota status.
+ * Renders the same Summary / Full detail sections as the table view as
+ * GitHub-flavored Markdown tables, for pasting into issues, PRs and chat.
+ */
+
+import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
+import { findForecast } from "../forecast.js";
+import type { ModelRow, StatusColumn } from "../selection.js";
+import {
+  formatResetTime,
+  formatBurnRate,
+  formatExhaustion,
+  orderModelRows,
+  selectStatusColumns,
+  selectSummaryModels,
+  type TableOptions,
+} from "./table.js";
+
+const HEADERS: Record<StatusColumn, string> = {
+  email: "Email",
+  identity: "Identity",
+  project: "Project",
+  model: "Model",
+  remaining: "Remaining",
+  reset: "Reset",
+  status: "Status",
+  error: "Error",
+  burn: "Burn/h",
+  exhausts: "Exhausts",
+};
+
+/**
+ * Escapes characters that would break a Markdown table cell.
+ */
+function cell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.map(cell).join(" | ")} |`;
+}
+
+/**
+ * Renders quota reports and errors as Markdown.
+ *
+ * @param reports - Successfully fetched quota reports
+ * @param errors - Identity errors (failed fetches)
+ * @param options - Columns, row order, forecasts and summary models (same as renderTable)
+ * @returns Markdown string
+ */
+export function renderMarkdown(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  options: TableOptions = {},
+): string {
+  if (reports.length === 0 && errors.length === 0) {
+    return "No accounts found. Run `usage-google login` to add an account.\n";
+  }
+
+  const forecasts = options.forecasts;
+  const keys = selectStatusColumns(options);
+  const header = keys.map((key) => HEADERS[key]);
+  const alignment = keys.map((key) => (key === "remaining" || key === "burn" ? "---:" : "---"));
+
+  const modelRow = ({ report, model }: ModelRow) => {
+    const forecast = forecasts
+      ? findForecast(forecasts, { email: report.email, identity: report.identity, model: model.model })
+      : undefined;
+    const cells: Record<StatusColumn, string> = {
+      email: report.email,
+      identity: report.identity,
+      project: report.projectId || "-",
+      model: model.model,
+      remaining: `${model.remainingPercent}%`,
+      reset: model.resetTime ? formatResetTime(model.resetTime, options) : "-",
+      status: "OK",
+      error: "-",
+      burn: formatBurnRate(forecast),
+      exhausts: formatExhaustion(forecast),
+    };
+    return tableRow(keys.map((key) => cells[key]));
+  };
+
+  const errorRow = (err: IdentityError) => {
+    const cells: Record<StatusColumn, string> = {
+      email: err.email,
+      identity: err.identity,
+      project: "-",
+      model: "-",
+      remaining: "-",
+      reset: "-",
+      status: err.needsRelogin ? "Needs relogin" : err.isForbidden ? "Forbidden" : "Error",
+      error: err.error,
+      burn: "-",
+      exhausts: "-",
+    };
+    return tableRow(keys.map((key) => cells[key]));
+  };
+
+  const renderSection = (title: string, rows: AccountQuotaReport[], sortModels: boolean) => {
+    const body = [...orderModelRows(rows, options.sort, sortModels).map(modelRow), ...errors.map(errorRow)];
+
+    const lines = [`### ${title}`, ""];
+    if (body.length === 0) {
+      lines.push("_No matching models._");
+    } else {
+      lines.push(tableRow(header), `| ${alignment.join(" | ")} |`, ...body);
+    }
+    return lines;
+  };
+
+  const lines = [
+    ...renderSection("Summary", selectSummaryModels(reports, options.summaryModels), false),
+    "",
+    ...renderSection("Full detail", reports, true),
+  ];
+
+  const needsRelogin = errors.filter((e) => e.needsRelogin);
+  if (needsRelogin.length > 0) {
+    lines.push("", "**Action required:**", "");
+    for (const err of needsRelogin) {
+      lines.push(`- \`usage-google login --mode ${err.identity} --account ${err.email}\``);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,45 @@
+/**
+ * NDJSON output formatter for quota status.
+ * One JSON object per line: a "report" or "error" line per identity as soon as
+ * it settles, then a final "summary" line carrying the JSON envelope metadata.
+ */
+
+import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
+import { buildJsonOutput, toJsonReport, JSON_SCHEMA_VERSION, type JsonOptions } from "./json.js";
+
+/**
+ * Renders one successful identity report as an NDJSON line.
+ *
+ * @param now - Reference time in Unix ms for resetInSeconds (default: now)
+ */
+export function renderNdjsonReport(report: AccountQuotaReport, now = Date.now()): string {
+  return (
+    JSON.stringify({ type: "report", schemaVersion: JSON_SCHEMA_VERSION, report: toJsonReport(report, now) }) + "\n"
+  );
+}
+
+/**
+ * Renders one failed identity as an NDJSON line.
+ */
+export function renderNdjsonError(error: IdentityError): string {
+  return JSON.stringify({ type: "error", schemaVersion: JSON_SCHEMA_VERSION, error }) + "\n";
+}
+
+/**
+ * Renders the closing summary line: envelope metadata plus report/error counts
+ * (and forecasts, when requested).
+ *
+ * @param reports - All successful reports of the run
+ * @param errors - All identity errors of the run
+ * @param options - Forecasts, applied filters and timestamp
+ */
+export function renderNdjsonSummary(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  options: JsonOptions = {},
+): string {
+  const { reports: _reports, errors: _errors, ...envelope } = buildJsonOutput(reports, errors, options);
+  return (
+    JSON.stringify({ type: "summary", ...envelope, reportCount: reports.length, errorCount: errors.length }) + "\n"
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Prometheus text exposition formatter for quota metrics.
+ * Renders gauges for remaining quota / reset time and counters for fetch errors.
+ */
+
+import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
+
+/**
+ * Error kind label for usage_google_fetch_errors_total.
+ */
+export type FetchErrorKind = "needs_relogin" | "forbidden" | "other";
+
+/**
+ * Cumulative fetch error count for one account + identity + kind.
+ */
+export interface FetchErrorCount {
+  email: string;
+  identity: IdentityError["identity"];
+  kind: FetchErrorKind;
+  count: number;
+}
+
+/**
+ * Snapshot of everything the metrics endpoint exposes.
+ */
+export interface MetricsSnapshot {
+  reports: AccountQuotaReport[];
+  errorCounts: FetchErrorCount[];
+  refreshFailures: number; // runStatus itself threw (store unreadable, etc.)
+  lastRefreshAt?: number; // Unix ms of the last successful refresh
+}
+
+/**
+ * Classifies an identity error into a metrics label.
+ */
+export function fetchErrorKind(error: IdentityError): FetchErrorKind {
+  if (error.needsRelogin) return "needs_relogin";
+  if (error.isForbidden) return "forbidden";
+  return "other";
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Renders a metrics snapshot in Prometheus text format (version 0.0.4).
+ *
+ * @param snapshot - Current reports and cumulative error counters
+ * @param now - Current time in Unix ms (for reset countdowns)
+ * @returns Exposition text ending with a newline
+ */
+export function renderPrometheus(snapshot: MetricsSnapshot, now = Date.now()): string {
+  const lines: string[] = [];
+
+  lines.push("# HELP usage_google_remaining_percent Remaining quota for a model, in percent.");
+  lines.push("# TYPE usage_google_remaining_percent gauge");
+  for (const report of snapshot.reports) {
+    for (const model of report.models) {
+      const labels = formatLabels({ email: report.email, identity: report.identity, model: model.model });
+      lines.push(`usage_google_remaining_percent${labels} ${model.remainingPercent}`);
+    }
+  }
+
+  lines.push("# HELP usage_google_reset_seconds Seconds until the model quota resets.");
+  lines.push("# TYPE usage_google_reset_seconds gauge");
+  for (const report of snapshot.reports) {
+    for (const model of report.models) {
+      const resetAt = Date.parse(model.resetTime);
+      if (isNaN(resetAt)) continue;
+      const labels = formatLabels({ email: report.email, identity: report.identity, model: model.model });
+      lines.push(`usage_google_reset_seconds${labels} ${Math.max(0, Math.round((resetAt - now) / 1000))}`);
+    }
+  }
+
+  lines.push("# HELP usage_google_fetch_errors_total Identity quota fetch failures by kind.");
+  lines.push("# TYPE usage_google_fetch_errors_total counter");
+  for (const error of snapshot.errorCounts) {
+    const labels = formatLabels({ email: error.email, identity: error.identity, kind: error.kind });
+    lines.push(`usage_google_fetch_errors_total${labels} ${error.count}`);
+  }
+
+  lines.push("# HELP usage_google_refresh_failures_total Status refreshes that failed entirely.");
+  lines.push("# TYPE usage_google_refresh_failures_total counter");
+  lines.push(`usage_google_refresh_failures_total ${snapshot.refreshFailures}`);
+
+  if (snapshot.lastRefreshAt !== undefined) {
+    lines.push("# HELP usage_google_last_refresh_timestamp_seconds Unix time of the last successful refresh.");
+    lines.push("# TYPE usage_google_last_refresh_timestamp_seconds gauge");
+    lines.push(`usage_google_last_refresh_timestamp_seconds ${Math.floor(snapshot.lastRefreshAt / 1000)}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
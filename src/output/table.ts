@@ -4,12 +4,60 @@
  */
 
 import type { AccountQuotaReport, IdentityError } from "../commands/status.js";
+import type { ModelQuota as ModelQuotaRow } from "../google/quota.js";
+import type { AccountSummary, IdentitySummary } from "../commands/accounts.js";
+import type { QuotaHistoryEntry } from "../history.js";
+import { findForecast, type ModelForecast } from "../forecast.js";
+import type { ModelPool } from "../pivot.js";
+import type { CheckLevel, DoctorCheck, IdentityDiagnosis } from "../commands/doctor.js";
+import { CONFIG_KEYS, formatConfigValue, type UsageGoogleConfig } from "../config.js";
+import { sortModelRows, type ModelRow, type SortSpec, type StatusColumn } from "../selection.js";
+import { paint, remainingStyle, renderBar, type ColorCutoffs, type ColorStyle } from "./color.js";
+import { formatAbsoluteTime, type ResetFormat } from "./time.js";
+
+/**
+ * Models shown in the status summary table unless configured otherwise.
+ */
+export const DEFAULT_SUMMARY_MODELS = [
+  "claude-opus-4-6-thinking",
+  "gemini-3.1-flash-image",
+  "gemini-3.1-pro-preview",
+];
+
+/**
+ * How reset times are displayed (see formatResetTime).
+ */
+export interface ResetTimeOptions {
+  /** relative (default), absolute or both. */
+  resetFormat?: ResetFormat;
+  /** IANA zone for absolute times; the system zone when undefined. */
+  timeZone?: string;
+}
+
+function formatRelativeTime(date: Date): string {
+  const diffMs = date.getTime() - Date.now();
+
+  if (diffMs < 0) return "now";
+
+  const totalMinutes = Math.floor(diffMs / (1000 * 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const mins = totalMinutes % 60;
+
+  if (hours >= 24) {
+    const days = Math.floor(hours / 24);
+    const remHours = hours % 24;
+    return `${days}d${remHours}h${mins}m`;
+  }
+  if (hours > 0) return `${hours}h${mins}m`;
+  return `${mins}m`;
+}
 
 /**
  * Formats reset time for table display.
- * Shows relative time (e.g., "2h30m") or "now" for past times.
+ * Shows relative time (e.g., "2h30m") or "now" for past times; with
+ * `resetFormat` absolute ("2026-01-18 14:00 UTC") or both ("2h30m (…)").
  */
-export function formatResetTime(resetTime: string): string {
+export function formatResetTime(resetTime: string, options: ResetTimeOptions = {}): string {
   try {
     const date = new Date(resetTime);
     if (isNaN(date.getTime())) {
@@ -17,25 +65,306 @@ export function formatResetTime(resetTime: string): string {
       return resetTime.slice(0, 10);
     }
 
-    const now = new Date();
-    const diffMs = date.getTime() - now.getTime();
+    switch (options.resetFormat ?? "relative") {
+      case "absolute":
+        return formatAbsoluteTime(date, options.timeZone);
+      case "both":
+        return `${formatRelativeTime(date)} (${formatAbsoluteTime(date, options.timeZone)})`;
+      default:
+        return formatRelativeTime(date);
+    }
+  } catch {
+    return resetTime.slice(0, 10);
+  }
+}
+
+/**
+ * Formats a forecast burn rate (e.g., "3.5%/h"), or "-" without enough data.
+ */
+export function formatBurnRate(forecast: ModelForecast | undefined): string {
+  if (forecast?.ratePerHour === undefined) return "-";
+  if (forecast.ratePerHour <= 0) return "0%/h";
+  return `${forecast.ratePerHour.toFixed(1)}%/h`;
+}
+
+/**
+ * Formats when a forecast runs out: relative time if before reset,
+ * otherwise "after reset" / "never" / "-" (not enough data).
+ */
+export function formatExhaustion(forecast: ModelForecast | undefined): string {
+  if (!forecast) return "-";
+  if (forecast.remainingPercent <= 0) return "exhausted";
+  if (forecast.exhaustsAt === undefined) {
+    return forecast.ratePerHour === undefined ? "-" : "never";
+  }
+  if (forecast.exhaustsBeforeReset === false) return "after reset";
+  return formatResetTime(new Date(forecast.exhaustsAt).toISOString());
+}
+
+/** Identity order used for the status table rows. */
+export const ORDERED_IDENTITIES: Array<AccountQuotaReport["identity"]> = ["antigravity", "gemini-cli"];
+
+/** Status columns shown when --columns isn't given (Burn/h and Exhausts need forecasts). */
+export const DEFAULT_STATUS_COLUMNS: StatusColumn[] = [
+  "email",
+  "identity",
+  "model",
+  "remaining",
+  "reset",
+  "status",
+  "burn",
+  "exhausts",
+];
 
-    if (diffMs < 0) return "now";
+/**
+ * Resolves the status columns to render: the requested (or default) columns,
+ * minus Burn/h and Exhausts when there are no forecasts.
+ */
+export function selectStatusColumns(options: TableOptions): StatusColumn[] {
+  return (options.columns ?? DEFAULT_STATUS_COLUMNS).filter(
+    (column) => options.forecasts || (column !== "burn" && column !== "exhausts"),
+  );
+}
 
-    const totalMinutes = Math.floor(diffMs / (1000 * 60));
-    const hours = Math.floor(totalMinutes / 60);
-    const mins = totalMinutes % 60;
+/**
+ * Flattens reports into status rows. With a sort spec rows are ordered across
+ * all accounts; otherwise by identity, then report, with models as reported
+ * or (sortModels) alphabetically.
+ */
+export function orderModelRows(
+  reports: AccountQuotaReport[],
+  sort: SortSpec | undefined,
+  sortModels: boolean,
+): ModelRow[] {
+  if (sort) return sortModelRows(reports, sort);
+  return ORDERED_IDENTITIES.flatMap((identity) =>
+    reports
+      .filter((report) => report.identity === identity)
+      .flatMap((report) =>
+        (sortModels ? [...report.models].sort((a, b) => a.model.localeCompare(b.model)) : report.models).map(
+          (model) => ({ report, model }),
+        ),
+      ),
+  );
+}
 
-    if (hours >= 24) {
-      const days = Math.floor(hours / 24);
-      const remHours = hours % 24;
-      return `${days}d${remHours}h${mins}m`;
+/**
+ * Narrows each report to the summary models, in summary-list order.
+ *
+ * @param summaryModels - Model names to keep (default: DEFAULT_SUMMARY_MODELS)
+ */
+export function selectSummaryModels(
+  reports: AccountQuotaReport[],
+  summaryModels: string[] = DEFAULT_SUMMARY_MODELS,
+): AccountQuotaReport[] {
+  return reports.map((report) => ({
+    ...report,
+    models: summaryModels
+      .map((modelName) => report.models.find((model) => model.model === modelName))
+      .filter((model): model is ModelQuotaRow => Boolean(model)),
+  }));
+}
+
+/**
+ * Optional extras for the status table.
+ */
+export interface TableOptions extends ResetTimeOptions {
+  /** When provided, adds Burn/h and Exhausts columns from these forecasts. */
+  forecasts?: ModelForecast[];
+  /** Models for the summary section, in display order (default: DEFAULT_SUMMARY_MODELS). */
+  summaryModels?: string[];
+  /** Emit ANSI colors for Remaining and Status cells. */
+  color?: boolean;
+  /** Remaining-percent color cut points (default: DEFAULT_COLOR_CUTOFFS). */
+  colorCutoffs?: ColorCutoffs;
+  /** Add a bar gauge to the Remaining column. */
+  bars?: boolean;
+  /** Maximum line width (e.g. terminal columns); unlimited when undefined. */
+  width?: number;
+  /** One line per account/identity with the summary models only. */
+  compact?: boolean;
+  /** Row order across accounts; identity then model order when undefined. */
+  sort?: SortSpec;
+  /** Columns to show, in order (default: DEFAULT_STATUS_COLUMNS). */
+  columns?: StatusColumn[];
+}
+
+/**
+ * A table cell: plain text plus an optional color applied after padding.
+ */
+interface Cell {
+  text: string;
+  style?: ColorStyle;
+}
+
+/**
+ * How a column shortens values that don't fit.
+ * - end: "gemini-3.1-pro-pr…"
+ * - middle: "gemini-3…preview" (used for headers, so similar model names stay distinct)
+ * - email: keeps the domain, ellipsizing the local part ("verylong…@example.com")
+ */
+type Ellipsis = "end" | "middle" | "email";
+
+/**
+ * Column definition for the width-aware status table.
+ */
+interface ColumnDef {
+  label: string;
+  minWidth?: number; // Shrinkable down to this width when the terminal is narrow
+  ellipsis?: Ellipsis;
+  dropOrder?: number; // Dropped (lowest first) when shrinking isn't enough; never dropped if unset
+}
+
+const COLUMN_GAP = 2;
+
+/** Narrowest width a table may be squeezed to; below this it overflows instead. */
+const MIN_TABLE_WIDTH = 40;
+
+function ellipsize(text: string, width: number, mode: Ellipsis = "end"): string {
+  if (text.length <= width) return text;
+  if (width <= 1) return text.slice(0, width);
+  if (mode === "end") return text.slice(0, width - 1) + "…";
+
+  const at = text.lastIndexOf("@");
+  if (mode === "email" && at > 0 && text.length - at + 4 <= width) {
+    const domain = text.slice(at);
+    return text.slice(0, width - 1 - domain.length) + "…" + domain;
+  }
+  // Keep both ends (also for emails whose domain alone doesn't fit)
+  const head = Math.ceil((width - 1) / 2);
+  return text.slice(0, head) + "…" + text.slice(text.length - (width - 1 - head));
+}
+
+function tableWidth(widths: number[]): number {
+  return widths.reduce((sum, w) => sum + w, 0) + COLUMN_GAP * (widths.length - 1) + 4;
+}
+
+/**
+ * Picks visible columns and their widths. Without a max width every column
+ * gets its natural (content) width; otherwise the widest shrinkable columns
+ * give up space first, then low-priority columns are dropped.
+ *
+ * @returns Indexes of visible columns and their widths
+ */
+function layoutColumns(
+  columns: ColumnDef[],
+  rows: Cell[][],
+  maxWidth?: number,
+): { visible: number[]; widths: number[] } {
+  const natural = columns.map((column, col) =>
+    Math.max(column.label.length, ...rows.map((row) => row[col].text.length)),
+  );
+  let visible = columns.map((_, col) => col);
+  const limit = maxWidth === undefined ? undefined : Math.max(MIN_TABLE_WIDTH, maxWidth);
+
+  const fit = (cols: number[]) => {
+    const widths = cols.map((col) => natural[col]);
+    if (limit === undefined) return widths;
+    // Take one cell at a time from the widest shrinkable column
+    for (let overflow = tableWidth(widths) - limit; overflow > 0; overflow--) {
+      let widest = -1;
+      cols.forEach((col, i) => {
+        const min = columns[col].minWidth;
+        if (min !== undefined && widths[i] > min && (widest === -1 || widths[i] > widths[widest])) widest = i;
+      });
+      if (widest === -1) break;
+      widths[widest]--;
     }
-    if (hours > 0) return `${hours}h${mins}m`;
-    return `${mins}m`;
-  } catch {
-    return resetTime.slice(0, 10);
+    return widths;
+  };
+
+  let widths = fit(visible);
+  const droppable = visible
+    .filter((col) => columns[col].dropOrder !== undefined)
+    .sort((a, b) => columns[a].dropOrder! - columns[b].dropOrder!);
+  for (const col of droppable) {
+    if (limit === undefined || tableWidth(widths) <= limit) break;
+    visible = visible.filter((c) => c !== col);
+    widths = fit(visible);
   }
+
+  return { visible, widths };
+}
+
+/**
+ * Renders boxed rows for a laid-out column set (header, rows, optional placeholder).
+ */
+function renderLaidOut(
+  columns: ColumnDef[],
+  layout: { visible: number[]; widths: number[] },
+  sections: Array<{ title?: string; rows: Cell[][]; empty?: string }>,
+  color: boolean,
+): string[] {
+  const innerWidth = tableWidth(layout.widths) - 2;
+  const renderLine = (cells: Cell[]) =>
+    "│ " +
+    layout.visible
+      .map((col, i) => {
+        const column = columns[col];
+        const text = ellipsize(cells[col].text, layout.widths[i], cells === header ? "middle" : column.ellipsis);
+        return paint(text, cells[col].style, color) + " ".repeat(layout.widths[i] - text.length);
+      })
+      .join(" ".repeat(COLUMN_GAP)) +
+    " │";
+  const header = columns.map((column) => ({ text: column.label }));
+
+  const lines: string[] = [];
+  sections.forEach((section, index) => {
+    if (section.title) {
+      if (index > 0) lines.push("");
+      lines.push(section.title, "");
+    }
+    lines.push("┌" + "─".repeat(innerWidth) + "┐");
+    lines.push(renderLine(header));
+    lines.push("├" + "─".repeat(innerWidth) + "┤");
+    if (section.rows.length === 0 && section.empty) {
+      lines.push("│ " + section.empty.padEnd(innerWidth - 2) + " │");
+    }
+    for (const row of section.rows) {
+      lines.push(renderLine(row));
+    }
+    lines.push("└" + "─".repeat(innerWidth) + "┘");
+  });
+  return lines;
+}
+
+/**
+ * Table column for each selectable status column (see renderTable).
+ */
+const STATUS_TABLE_COLUMNS: Record<StatusColumn, ColumnDef> = {
+  email: { label: "Email", minWidth: 12, ellipsis: "email" },
+  identity: { label: "Identity", dropOrder: 3 },
+  project: { label: "Project", minWidth: 10 },
+  model: { label: "Model", minWidth: 14 },
+  remaining: { label: "Remaining" },
+  reset: { label: "Reset", dropOrder: 2 },
+  status: { label: "Status" },
+  error: { label: "Error", minWidth: 10 },
+  burn: { label: "Burn/h", dropOrder: 1 },
+  exhausts: { label: "Exhausts", dropOrder: 0 },
+};
+
+function errorStatusCell(err: IdentityError): Cell {
+  const status = err.needsRelogin ? "Needs relogin" : err.isForbidden ? "Forbidden" : "Error";
+  return { text: status, style: status === "Forbidden" ? "yellow" : "red" };
+}
+
+function remainingCell(percent: number, options: TableOptions): Cell {
+  const text = options.bars ? `${`${percent}%`.padEnd(5)}${renderBar(percent)}` : `${percent}%`;
+  return { text, style: remainingStyle(percent, options.colorCutoffs) };
+}
+
+/**
+ * Renders the "Action required" footer for identities that need a relogin.
+ */
+function renderReloginFooter(errors: IdentityError[]): string[] {
+  const needsRelogin = errors.filter((e) => e.needsRelogin);
+  if (needsRelogin.length === 0) return [];
+  return [
+    "",
+    "Action required:",
+    ...needsRelogin.map((err) => `  usage-google login --mode ${err.identity} --account ${err.email}`),
+  ];
 }
 
 /**
@@ -48,166 +377,399 @@ export function formatResetTime(resetTime: string): string {
  * - Remaining: Quota remaining as percentage
  * - Reset: Time until quota resets
  * - Status: OK, Needs relogin, or Error
+ * - Burn/h, Exhausts: only when forecasts are provided
+ * - Project, Error: only when requested via `columns`
+ *
+ * `columns` picks and orders the columns; `sort` orders rows across accounts
+ * instead of by identity and model. With a `width`, emails and model names are ellipsized and then Exhausts,
+ * Burn/h, Reset and Identity are dropped (in that order) until the table fits.
  *
  * @param reports - Successfully fetched quota reports
  * @param errors - Identity errors (failed fetches)
+ * @param options - Optional extra columns, colors and layout
  * @returns Formatted table string
  */
-export function renderTable(reports: AccountQuotaReport[], errors: IdentityError[]): string {
+export function renderTable(
+  reports: AccountQuotaReport[],
+  errors: IdentityError[],
+  options: TableOptions = {},
+): string {
   if (reports.length === 0 && errors.length === 0) {
     return "No accounts found. Run `usage-google login` to add an account.\n";
   }
+  if (options.compact) {
+    return renderCompactTable(reports, errors, options);
+  }
+
+  const forecasts = options.forecasts;
+  const keys = selectStatusColumns(options);
+  const columns = keys.map((key) => STATUS_TABLE_COLUMNS[key]);
+
+  const modelRow = ({ report, model }: ModelRow): Cell[] => {
+    const forecast = forecasts
+      ? findForecast(forecasts, { email: report.email, identity: report.identity, model: model.model })
+      : undefined;
+    const cells: Record<StatusColumn, Cell> = {
+      email: { text: report.email },
+      identity: { text: report.identity },
+      project: { text: report.projectId || "-" },
+      model: { text: model.model },
+      remaining: remainingCell(model.remainingPercent, options),
+      reset: { text: model.resetTime ? formatResetTime(model.resetTime, options) : "-" },
+      status: { text: "OK" },
+      error: { text: "-" },
+      burn: { text: formatBurnRate(forecast) },
+      exhausts: { text: formatExhaustion(forecast) },
+    };
+    return keys.map((key) => cells[key]);
+  };
+  const errorRows: Cell[][] = errors.map((err) => {
+    const cells: Record<StatusColumn, Cell> = {
+      email: { text: err.email },
+      identity: { text: err.identity },
+      project: { text: "-" },
+      model: { text: "-" },
+      remaining: { text: "-" },
+      reset: { text: "-" },
+      status: errorStatusCell(err),
+      error: { text: err.error },
+      burn: { text: "-" },
+      exhausts: { text: "-" },
+    };
+    return keys.map((key) => cells[key]);
+  });
+  const modelRows = (rows: AccountQuotaReport[], sortModels: boolean): Cell[][] =>
+    orderModelRows(rows, options.sort, sortModels).map(modelRow);
+
+  const summaryRows = [...modelRows(selectSummaryModels(reports, options.summaryModels), false), ...errorRows];
+  const detailRows = [...modelRows(reports, true), ...errorRows];
+  const layout = layoutColumns(columns, [...summaryRows, ...detailRows], options.width);
+
+  const lines = renderLaidOut(
+    columns,
+    layout,
+    [
+      { title: "Summary", rows: summaryRows, empty: "(no matching models)" },
+      { title: "Full detail", rows: detailRows },
+    ],
+    options.color ?? false,
+  );
+  lines.push(...renderReloginFooter(errors));
+
+  return lines.join("\n") + "\n";
+}
 
-  const summaryAllowlist = [
-    "claude-opus-4-6-thinking",
-    "gemini-3.1-flash-image",
-    "gemini-3.1-pro-preview",
+/**
+ * Compact view: one line per account/identity with a Remaining column per
+ * summary model.
+ */
+function renderCompactTable(reports: AccountQuotaReport[], errors: IdentityError[], options: TableOptions): string {
+  const summaryModels = options.summaryModels ?? DEFAULT_SUMMARY_MODELS;
+  const columns: ColumnDef[] = [
+    { label: "Email", minWidth: 12, ellipsis: "email" },
+    { label: "Identity", dropOrder: 0 },
+    ...summaryModels.map((model) => ({ label: model, minWidth: 6 })),
+    { label: "Status" },
   ];
-  const orderedIdentities: Array<AccountQuotaReport["identity"]> = ["antigravity", "gemini-cli"];
 
-  const summaryReports: AccountQuotaReport[] = reports.map((report) => ({
-    ...report,
-    models: summaryAllowlist
-      .map((modelName) => report.models.find((model) => model.model === modelName))
-      .filter((model): model is { model: string; remainingPercent: number; resetTime: string } => Boolean(model)),
-  }));
+  const rows: Cell[][] = [
+    ...ORDERED_IDENTITIES.flatMap((identity) =>
+      reports
+        .filter((report) => report.identity === identity)
+        .map((report) => [
+          { text: report.email },
+          { text: report.identity },
+          ...summaryModels.map((name) => {
+            const model = report.models.find((m) => m.model === name);
+            return model ? remainingCell(model.remainingPercent, options) : { text: "-" };
+          }),
+          { text: "OK" },
+        ]),
+    ),
+    ...errors.map((err) => [
+      { text: err.email },
+      { text: err.identity },
+      ...summaryModels.map(() => ({ text: "-" })),
+      errorStatusCell(err),
+    ]),
+  ];
 
-  const summaryHasData = summaryReports.some((report) => report.models.length > 0) || errors.length > 0;
-
-  const emailWidth = 22;
-  const identityWidth = 12;
-  const remainingWidth = 10;
-  const statusWidth = 16;
-  const resetValues = reports
-    .flatMap((report) => report.models.map((model) => formatResetTime(model.resetTime)))
-    .concat(errors.map(() => "-"));
-  const resetWidth = Math.max(8, ...resetValues.map((value) => value.length));
-  const modelValues = reports.flatMap((report) => report.models.map((model) => model.model));
-  const modelWidth = Math.max(18, "-".length, ...modelValues.map((value) => value.length));
-  const columnGap = 2;
-  const contentWidth =
-    emailWidth +
-    identityWidth +
-    modelWidth +
-    remainingWidth +
-    resetWidth +
-    statusWidth +
-    columnGap * 5;
-  const innerWidth = contentWidth + 2;
+  const layout = layoutColumns(columns, rows, options.width);
+  const lines = renderLaidOut(columns, layout, [{ rows }], options.color ?? false);
+  lines.push(...renderReloginFooter(errors));
 
-  const lines: string[] = [];
+  return lines.join("\n") + "\n";
+}
 
-  const renderHeader = (label: string) => {
-    lines.push(label);
-    lines.push("");
-    lines.push("┌" + "─".repeat(innerWidth) + "┐");
-    lines.push(
-      "│ " +
-        "Email".padEnd(emailWidth) +
-        " ".repeat(columnGap) +
-        "Identity".padEnd(identityWidth) +
-        " ".repeat(columnGap) +
-        "Model".padEnd(modelWidth) +
-        " ".repeat(columnGap) +
-        "Remaining".padEnd(remainingWidth) +
-        " ".repeat(columnGap) +
-        "Reset".padEnd(resetWidth) +
-        " ".repeat(columnGap) +
-        "Status".padEnd(statusWidth) +
-        "│"
-    );
-    lines.push("├" + "─".repeat(innerWidth) + "┤");
-  };
+/**
+ * Renders quota pivoted by model: every account/identity per model, best
+ * first, followed by a pooled total for the model.
+ *
+ * @param pools - Per-model pools (see groupByModel)
+ * @param errors - Identity errors (listed below the table)
+ * @param options - Colors, bars and width (same as renderTable)
+ * @returns Formatted table string
+ */
+export function renderModelPivotTable(
+  pools: ModelPool[],
+  errors: IdentityError[],
+  options: TableOptions = {},
+): string {
+  if (pools.length === 0 && errors.length === 0) {
+    return "No accounts found. Run `usage-google login` to add an account.\n";
+  }
 
-  const renderRows = (rows: AccountQuotaReport[], sortModels = false) => {
-    for (const identity of orderedIdentities) {
-      for (const report of rows.filter((row) => row.identity === identity)) {
-        const models = sortModels
-          ? [...report.models].sort((a, b) => a.model.localeCompare(b.model))
-          : report.models;
-        for (const model of models) {
-          const email = report.email.slice(0, emailWidth - 1).padEnd(emailWidth);
-          const identityLabel = report.identity.slice(0, identityWidth - 1).padEnd(identityWidth);
-          const modelName = model.model.padEnd(modelWidth);
-          const remaining = `${model.remainingPercent}%`.padEnd(remainingWidth);
-          const reset = model.resetTime ? formatResetTime(model.resetTime) : "-";
-          const resetCol = reset.padEnd(resetWidth);
-          const status = "OK";
-          lines.push(
-            `│ ${email}${" ".repeat(columnGap)}` +
-              `${identityLabel}${" ".repeat(columnGap)}` +
-              `${modelName}${" ".repeat(columnGap)}` +
-              `${remaining}${" ".repeat(columnGap)}` +
-              `${resetCol}${" ".repeat(columnGap)}` +
-              `${status.padEnd(statusWidth)}│`
-          );
-        }
-      }
-    }
-  };
+  const columns: ColumnDef[] = [
+    { label: "Model", minWidth: 14 },
+    { label: "Email", minWidth: 12, ellipsis: "email" },
+    { label: "Identity", dropOrder: 1 },
+    { label: "Remaining" },
+    { label: "Reset", dropOrder: 0 },
+  ];
+
+  const rows: Cell[][] = pools.flatMap((pool) => [
+    ...pool.entries.map((entry, index) => [
+      { text: index === 0 ? pool.model : "" },
+      { text: entry.email },
+      { text: entry.identity },
+      remainingCell(entry.remainingPercent, options),
+      { text: entry.resetTime ? formatResetTime(entry.resetTime, options) : "-" },
+    ]),
+    [
+      { text: "" },
+      { text: `Pooled (${pool.entries.length})`, style: "dim" as const },
+      { text: "" },
+      { text: `${pool.pooledPercent}%`, style: "dim" as const },
+      { text: "" },
+    ],
+  ]);
 
-  const renderErrors = () => {
+  const layout = layoutColumns(columns, rows, options.width);
+  const lines = renderLaidOut(columns, layout, [{ rows, empty: "(no models)" }], options.color ?? false);
+
+  if (errors.length > 0) {
+    lines.push("", "Unavailable:");
     for (const err of errors) {
-      const email = err.email.slice(0, emailWidth - 1).padEnd(emailWidth);
-      const identity = err.identity.slice(0, identityWidth - 1).padEnd(identityWidth);
-      const modelCol = "-".padEnd(modelWidth);
-      const remainingCol = "-".padEnd(remainingWidth);
-      const resetCol = "-".padEnd(resetWidth);
-      const status = err.needsRelogin ? "Needs relogin" : (err.isForbidden ? "Forbidden" : "Error");
-      lines.push(
-        `│ ${email}${" ".repeat(columnGap)}` +
-          `${identity}${" ".repeat(columnGap)}` +
-          `${modelCol}${" ".repeat(columnGap)}` +
-          `${remainingCol}${" ".repeat(columnGap)}` +
-          `${resetCol}${" ".repeat(columnGap)}` +
-          `${status.padEnd(statusWidth)}│`
-      );
+      const status = errorStatusCell(err);
+      lines.push(`  ${err.email} (${err.identity}): ${paint(status.text, status.style, options.color ?? false)}`);
     }
-  };
-
-  renderHeader("Summary");
-  if (summaryHasData) {
-    renderRows(summaryReports);
-    renderErrors();
-    lines.push("└" + "─".repeat(innerWidth) + "┘");
-  } else {
-    lines.push(`│ ${"(no matching models)".padEnd(contentWidth)}│`);
-    lines.push("└" + "─".repeat(innerWidth) + "┘");
   }
+  lines.push(...renderReloginFooter(errors));
 
-  lines.push("");
-  lines.push("Full detail");
-  lines.push("");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders a simple boxed table with columns sized to their content.
+ */
+function renderBoxTable(header: string[], rows: string[][]): string {
+  const columnGap = 2;
+  const widths = header.map((label, col) => Math.max(label.length, ...rows.map((row) => row[col].length)));
+  const innerWidth = widths.reduce((sum, w) => sum + w, 0) + columnGap * (widths.length - 1) + 2;
+  const renderLine = (cells: string[]) =>
+    "│ " + cells.map((cell, col) => cell.padEnd(widths[col])).join(" ".repeat(columnGap)) + " │";
+
+  const lines: string[] = [];
   lines.push("┌" + "─".repeat(innerWidth) + "┐");
-  lines.push(
-    "│ " +
-      "Email".padEnd(emailWidth) +
-      " ".repeat(columnGap) +
-      "Identity".padEnd(identityWidth) +
-      " ".repeat(columnGap) +
-      "Model".padEnd(modelWidth) +
-      " ".repeat(columnGap) +
-      "Remaining".padEnd(remainingWidth) +
-      " ".repeat(columnGap) +
-      "Reset".padEnd(resetWidth) +
-      " ".repeat(columnGap) +
-      "Status".padEnd(statusWidth) +
-      "│"
-  );
+  lines.push(renderLine(header));
   lines.push("├" + "─".repeat(innerWidth) + "┤");
-  renderRows(reports, true);
-  renderErrors();
+  for (const row of rows) {
+    lines.push(renderLine(row));
+  }
   lines.push("└" + "─".repeat(innerWidth) + "┘");
 
-  // Footer with action required
-  const needsRelogin = errors.filter((e) => e.needsRelogin);
-  if (needsRelogin.length > 0) {
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Formats a millisecond timestamp as "YYYY-MM-DD HH:MM" (UTC).
+ */
+function formatTimestamp(ms: number): string {
+  const date = new Date(ms);
+  if (isNaN(date.getTime())) return "-";
+  return date.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Formats the cached token state, including remaining lifetime when valid.
+ */
+function formatCachedToken(identity: IdentitySummary): string {
+  if (identity.cachedToken === "valid" && identity.cachedExpiresAt) {
+    const expiresIn = formatResetTime(new Date(identity.cachedExpiresAt * 1000).toISOString());
+    return `valid (${expiresIn})`;
+  }
+  return identity.cachedToken;
+}
+
+/**
+ * Renders stored accounts as a table (one row per identity).
+ *
+ * @param accounts - Token-free account summaries
+ * @returns Formatted table string
+ */
+export function renderAccountsTable(accounts: AccountSummary[]): string {
+  if (accounts.length === 0) {
+    return "No accounts found. Run `usage-google login` to add an account.\n";
+  }
+
+  const header = ["Email", "Identity", "Project", "Token", "Added", "Updated"];
+  const rows: string[][] = [];
+  for (const account of accounts) {
+    const added = formatTimestamp(account.addedAt);
+    const updated = formatTimestamp(account.updatedAt);
+    if (account.identities.length === 0) {
+      rows.push([account.email, "-", "-", "-", added, updated]);
+      continue;
+    }
+    for (const identity of account.identities) {
+      rows.push([
+        account.email,
+        identity.identity,
+        identity.projectId ?? "-",
+        formatCachedToken(identity),
+        added,
+        updated,
+      ]);
+    }
+  }
+
+  return renderBoxTable(header, rows);
+}
+
+/**
+ * Renders a single stored account as a detail block.
+ *
+ * @param account - Token-free account summary
+ * @returns Formatted detail string
+ */
+export function renderAccountDetail(account: AccountSummary): string {
+  const lines: string[] = [];
+  lines.push(account.email);
+  lines.push(`  ID:       ${account.id}`);
+  lines.push(`  Added:    ${formatTimestamp(account.addedAt)}`);
+  lines.push(`  Updated:  ${formatTimestamp(account.updatedAt)}`);
+
+  if (account.identities.length === 0) {
+    lines.push("  (no identities stored)");
+  }
+  for (const identity of account.identities) {
     lines.push("");
-    lines.push("Action required:");
-    for (const err of needsRelogin) {
-      lines.push(`  usage-google login --mode ${err.identity} --account ${err.email}`);
+    lines.push(`  ${identity.identity}`);
+    lines.push(`    Project:  ${identity.projectId ?? "-"}`);
+    lines.push(`    Token:    ${formatCachedToken(identity)}`);
+    if (identity.cachedExpiresAt) {
+      lines.push(`    Expires:  ${formatTimestamp(identity.cachedExpiresAt * 1000)}`);
     }
   }
 
   return lines.join("\n") + "\n";
 }
+
+/**
+ * Renders recorded quota readings as a table (oldest first).
+ *
+ * @param entries - History entries
+ * @returns Formatted table string
+ */
+export function renderHistoryTable(entries: QuotaHistoryEntry[]): string {
+  if (entries.length === 0) {
+    return "No history recorded yet. History is collected on every `usage-google status` run.\n";
+  }
+
+  const header = ["Fetched", "Email", "Identity", "Model", "Remaining", "Reset"];
+  const rows = entries.map((entry) => [
+    formatTimestamp(entry.fetchedAt),
+    entry.email,
+    entry.identity,
+    entry.model,
+    `${entry.remainingPercent}%`,
+    entry.resetTime ? formatTimestamp(Date.parse(entry.resetTime)) : "-",
+  ]);
+
+  return renderBoxTable(header, rows);
+}
+
+/**
+ * Renders burn-rate forecasts as a table.
+ *
+ * @param forecasts - Per-model forecasts
+ * @returns Formatted table string
+ */
+export function renderForecastTable(forecasts: ModelForecast[]): string {
+  if (forecasts.length === 0) {
+    return "No history recorded yet. Forecasts need readings from at least two `usage-google status` runs.\n";
+  }
+
+  const header = ["Email", "Identity", "Model", "Remaining", "Burn/h", "Exhausts", "Reset", "Outlook"];
+  const rows = forecasts.map((forecast) => [
+    forecast.email,
+    forecast.identity,
+    forecast.model,
+    `${forecast.remainingPercent}%`,
+    formatBurnRate(forecast),
+    formatExhaustion(forecast),
+    forecast.resetTime ? formatResetTime(forecast.resetTime) : "-",
+    forecast.ratePerHour === undefined
+      ? "Not enough data"
+      : forecast.exhaustsBeforeReset
+        ? "Runs out before reset"
+        : "OK",
+  ]);
+
+  return renderBoxTable(header, rows);
+}
+
+const CHECK_LEVEL_LABELS: Record<CheckLevel, string> = {
+  ok: "[ok]  ",
+  warn: "[warn]",
+  fail: "[fail]",
+  skip: "[skip]",
+};
+
+function renderDoctorChecks(checks: DoctorCheck[], lines: string[]): void {
+  const nameWidth = Math.max(...checks.map((c) => c.name.length));
+  for (const check of checks) {
+    const timing = check.durationMs !== undefined ? ` (${check.durationMs}ms)` : "";
+    const status = check.httpStatus !== undefined ? ` [HTTP ${check.httpStatus}]` : "";
+    lines.push(`  ${CHECK_LEVEL_LABELS[check.level]} ${check.name.padEnd(nameWidth)}  ${check.detail}${status}${timing}`);
+    if (check.hint) {
+      lines.push(`         ${" ".repeat(nameWidth)}  → ${check.hint}`);
+    }
+  }
+}
+
+/**
+ * Renders doctor results as a human-readable report with hints.
+ *
+ * @param healthy - True when no check failed
+ * @param store - Store file checks
+ * @param identities - Per-identity pipeline checks
+ * @returns Formatted report string
+ */
+export function renderDoctorReport(healthy: boolean, store: DoctorCheck[], identities: IdentityDiagnosis[]): string {
+  const lines: string[] = [];
+  lines.push("Store");
+  renderDoctorChecks(store, lines);
+
+  for (const diagnosis of identities) {
+    lines.push("");
+    lines.push(`${diagnosis.email} (${diagnosis.identity})`);
+    renderDoctorChecks(diagnosis.checks, lines);
+  }
+
+  lines.push("");
+  lines.push(healthy ? "All checks passed." : "Some checks failed. See hints above.");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders the user config as a key/value table (unset keys shown as "-").
+ *
+ * @param configPath - Location of the config file
+ * @param config - Loaded config
+ * @returns Formatted table string
+ */
+export function renderConfigTable(configPath: string, config: UsageGoogleConfig): string {
+  const rows = CONFIG_KEYS.map((key) => [key, config[key] === undefined ? "-" : formatConfigValue(config[key])]);
+  return `Config: ${configPath}\n\n` + renderBoxTable(["Key", "Value"], rows);
+}
@@ -0,0 +1,445 @@
+/**
+ * Template output formatter for quota status (`--format template`).
+ * Implements the commonly used subset of Go's text/template against the same
+ * envelope `renderJson` emits, for tmux lines, chat bots and shell prompts.
+ *
+ * Supported syntax:
+ * - `{{.email}}`, `{{.a.b}}`, `{{.}}`, `{{$.reports}}` (root)
+ * - `{{if X}}…{{else if Y}}…{{else}}…{{end}}`, `{{range X}}…{{else}}…{{end}}`,
+ *   `{{with X}}…{{else}}…{{end}}`
+ * - Function calls and pipelines: `{{percent .remainingPercent}}`, `{{.resetTime | reset "absolute"}}`;
+ *   helpers take the value last, so it can be piped in
+ *   nested with parentheses: `{{if lt (len .errors) 1}}`
+ * - String ("…" with escapes, or `raw`), number and true/false literals
+ * - `{{- ` / ` -}}` trim surrounding whitespace; `{{/* comment *\/}}`
+ */
+
+import { matchesGlob } from "../glob.js";
+import { formatResetTime, type ResetTimeOptions } from "./table.js";
+import { isResetFormat } from "./time.js";
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type Arg =
+  | { type: "field"; root: boolean; path: string[] }
+  | { type: "literal"; value: unknown }
+  | { type: "function"; name: string }
+  | { type: "pipeline"; pipeline: Pipeline };
+
+/** Commands separated by `|`; each command's result is passed as the next one's last argument. */
+type Pipeline = Arg[][];
+
+type Node =
+  | { type: "text"; text: string }
+  | { type: "action"; pipeline: Pipeline }
+  | { type: "if"; branches: Array<{ condition: Pipeline; body: Node[] }>; otherwise?: Node[] }
+  | { type: "range" | "with"; pipeline: Pipeline; body: Node[]; otherwise?: Node[] };
+
+/**
+ * A parsed template, ready to render any number of times.
+ */
+export interface Template {
+  nodes: Node[];
+}
+
+type TemplateFunction = (...args: unknown[]) => unknown;
+
+const FUNCTION_NAMES = [
+  "percent",
+  "reset",
+  "where",
+  "len",
+  "join",
+  "upper",
+  "lower",
+  "eq",
+  "ne",
+  "lt",
+  "le",
+  "gt",
+  "ge",
+  "and",
+  "or",
+  "not",
+] as const;
+
+/** One `{{…}}` action, after trimming its delimiters. */
+interface Action {
+  source: string;
+  offset: number;
+}
+
+/**
+ * Splits the source into text and action chunks, applying `{{-`/`-}}` trimming.
+ */
+function splitSource(source: string): Array<string | Action> {
+  const chunks: Array<string | Action> = [];
+  let pos = 0;
+  let trimNext = false;
+
+  while (pos < source.length) {
+    const open = source.indexOf("{{", pos);
+    let text = source.slice(pos, open === -1 ? source.length : open);
+    if (trimNext) text = text.replace(/^\s+/, "");
+    if (open === -1) {
+      chunks.push(text);
+      break;
+    }
+
+    let start = open + 2;
+    if (/^-\s/.test(source.slice(start, start + 2))) {
+      text = text.replace(/\s+$/, "");
+      start += 1;
+    }
+    chunks.push(text);
+
+    // Find the closing braces, skipping over string literals
+    let end = start;
+    let quote: string | undefined;
+    for (; end < source.length; end++) {
+      const char = source[end];
+      if (quote) {
+        if (char === "\\" && quote === '"') end++;
+        else if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "`") {
+        quote = char;
+      } else if (source.startsWith("}}", end)) {
+        break;
+      }
+    }
+    if (end >= source.length) throw new TemplateError(`Unclosed action at offset ${open}`);
+
+    let body = source.slice(start, end);
+    trimNext = /\s-$/.test(body);
+    if (trimNext) body = body.slice(0, -1);
+    chunks.push({ source: body.trim(), offset: open });
+    pos = end + 2;
+  }
+
+  return chunks.filter((chunk) => chunk !== "");
+}
+
+const TOKEN_PATTERN =
+  /\s*(?:("(?:[^"\\]|\\.)*")|(`[^`]*`)|(-?\d+(?:\.\d+)?)|(\$?(?:\.[A-Za-z_]\w*)+|\$|\.)|([A-Za-z_]\w*)|(\||\(|\)))/y;
+
+type Token = { kind: "string" | "number" | "field" | "ident" | "punct"; text: string };
+
+function tokenize(action: Action): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < action.source.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(action.source);
+    if (!match) {
+      if (action.source.slice(start).trim() === "") break;
+      throw new TemplateError(`Unexpected "${action.source.slice(start).trim()}" in {{${action.source}}}`);
+    }
+    const [, quoted, raw, number, field, ident, punct] = match;
+    if (quoted !== undefined) tokens.push({ kind: "string", text: quoted });
+    else if (raw !== undefined) tokens.push({ kind: "string", text: raw });
+    else if (number !== undefined) tokens.push({ kind: "number", text: number });
+    else if (field !== undefined) tokens.push({ kind: "field", text: field });
+    else if (ident !== undefined) tokens.push({ kind: "ident", text: ident });
+    else tokens.push({ kind: "punct", text: punct });
+  }
+  return tokens;
+}
+
+/**
+ * Parses action tokens into a pipeline, recursing into parentheses.
+ */
+function parsePipeline(tokens: Token[], action: Action): Pipeline {
+  let pos = 0;
+
+  const parse = (nested: boolean): Pipeline => {
+    const pipeline: Pipeline = [];
+    let command: Arg[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token.kind === "punct" && token.text === ")") {
+        if (!nested) throw new TemplateError(`Unexpected ")" in {{${action.source}}}`);
+        break;
+      }
+      if (token.kind === "punct" && token.text === "|") {
+        if (command.length === 0) throw new TemplateError(`Empty command in {{${action.source}}}`);
+        pipeline.push(command);
+        command = [];
+        continue;
+      }
+      command.push(parseArg(token));
+    }
+    if (nested && tokens[pos - 1]?.text !== ")") throw new TemplateError(`Unclosed "(" in {{${action.source}}}`);
+    if (command.length === 0) throw new TemplateError(`Empty command in {{${action.source}}}`);
+    pipeline.push(command);
+    return pipeline;
+  };
+
+  const parseArg = (token: Token): Arg => {
+    switch (token.kind) {
+      case "string":
+        return {
+          type: "literal",
+          value: token.text.startsWith("`") ? token.text.slice(1, -1) : (JSON.parse(token.text) as string),
+        };
+      case "number":
+        return { type: "literal", value: Number(token.text) };
+      case "field": {
+        const root = token.text.startsWith("$");
+        const path = token.text.replace(/^\$/, "").split(".").filter(Boolean);
+        return { type: "field", root, path };
+      }
+      case "ident":
+        if (token.text === "true" || token.text === "false") return { type: "literal", value: token.text === "true" };
+        if (token.text === "nil") return { type: "literal", value: undefined };
+        if (!(FUNCTION_NAMES as readonly string[]).includes(token.text)) {
+          throw new TemplateError(`Unknown function "${token.text}" in {{${action.source}}}`);
+        }
+        return { type: "function", name: token.text };
+      default:
+        if (token.text === "(") return { type: "pipeline", pipeline: parse(true) };
+        throw new TemplateError(`Unexpected "${token.text}" in {{${action.source}}}`);
+    }
+  };
+
+  return parse(false);
+}
+
+/**
+ * Parses template source.
+ *
+ * @throws TemplateError on syntax errors, unknown functions or unbalanced blocks
+ */
+export function parseTemplate(source: string): Template {
+  const chunks = splitSource(source);
+  let index = 0;
+
+  // Parses nodes until one of the terminators ("end", "else") and returns which one stopped it
+  const parseList = (inBlock: boolean): { nodes: Node[]; stop?: { keyword: string; rest: Token[]; action: Action } } => {
+    const nodes: Node[] = [];
+    while (index < chunks.length) {
+      const chunk = chunks[index++];
+      if (typeof chunk === "string") {
+        nodes.push({ type: "text", text: chunk });
+        continue;
+      }
+      if (chunk.source.startsWith("/*")) {
+        if (!chunk.source.endsWith("*/")) throw new TemplateError(`Unclosed comment at offset ${chunk.offset}`);
+        continue;
+      }
+
+      const tokens = tokenize(chunk);
+      const keyword = tokens[0]?.kind === "ident" ? tokens[0].text : undefined;
+      if (keyword === "end" || keyword === "else") {
+        if (!inBlock) throw new TemplateError(`Unexpected {{${chunk.source}}} at offset ${chunk.offset}`);
+        return { nodes, stop: { keyword, rest: tokens.slice(1), action: chunk } };
+      }
+      if (keyword === "if" || keyword === "range" || keyword === "with") {
+        nodes.push(parseBlock(keyword, tokens.slice(1), chunk));
+        continue;
+      }
+      nodes.push({ type: "action", pipeline: parsePipeline(tokens, chunk) });
+    }
+    if (inBlock) throw new TemplateError("Missing {{end}}");
+    return { nodes };
+  };
+
+  const parseBlock = (keyword: "if" | "range" | "with", rest: Token[], action: Action): Node => {
+    if (rest.length === 0) throw new TemplateError(`Missing value for {{${action.source}}}`);
+    const branches = [{ condition: parsePipeline(rest, action), body: [] as Node[] }];
+    let otherwise: Node[] | undefined;
+
+    for (;;) {
+      const { nodes, stop } = parseList(true);
+      if (otherwise) {
+        otherwise = nodes;
+        if (stop!.keyword !== "end") throw new TemplateError(`Expected {{end}} after {{else}} in {{${action.source}}}`);
+        break;
+      }
+      branches[branches.length - 1].body = nodes;
+      if (stop!.keyword === "end") break;
+      // else / else if
+      if (stop!.rest[0]?.kind === "ident" && stop!.rest[0].text === "if" && keyword === "if") {
+        branches.push({ condition: parsePipeline(stop!.rest.slice(1), stop!.action), body: [] });
+      } else if (stop!.rest.length === 0) {
+        otherwise = [];
+      } else {
+        throw new TemplateError(`Unexpected {{${stop!.action.source}}} in {{${action.source}}}`);
+      }
+    }
+
+    if (keyword === "if") return { type: "if", branches, otherwise };
+    return { type: keyword, pipeline: branches[0].condition, body: branches[0].body, otherwise };
+  };
+
+  return { nodes: parseList(false).nodes };
+}
+
+/**
+ * Go-style truthiness: false, 0, "", nil and empty lists/objects are false.
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === "object") return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+function print(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toNumber(value: unknown, name: string): number {
+  const number = typeof value === "number" ? value : Number(value);
+  if (value === undefined || value === null || value === "" || isNaN(number)) {
+    throw new TemplateError(`${name}: expected a number, got ${print(value) || "nothing"}`);
+  }
+  return number;
+}
+
+function compare(name: string, a: unknown, b: unknown): number {
+  if (typeof a === "string" && typeof b === "string") return a.localeCompare(b);
+  return toNumber(a, name) - toNumber(b, name);
+}
+
+/**
+ * Splits helper arguments into options and the value, which comes last (as in
+ * Go templates) so it can be piped in: `{{.remainingPercent | percent 1}}`.
+ */
+function valueLast(args: unknown[]): [unknown[], unknown] {
+  return [args.slice(0, -1), args[args.length - 1]];
+}
+
+function buildFunctions(options: ResetTimeOptions): Record<(typeof FUNCTION_NAMES)[number], TemplateFunction> {
+  return {
+    percent: (...args) => {
+      const [[digits], value] = valueLast(args);
+      const number = toNumber(value, "percent");
+      return `${digits === undefined ? number : number.toFixed(toNumber(digits, "percent"))}%`;
+    },
+    reset: (...args) => {
+      const [[format], value] = valueLast(args);
+      if (format !== undefined && !isResetFormat(String(format))) {
+        throw new TemplateError(`reset: unknown format "${print(format)}" (relative, absolute or both)`);
+      }
+      if (!value) return "-";
+      return formatResetTime(String(value), {
+        ...options,
+        ...(format !== undefined ? { resetFormat: format as ResetTimeOptions["resetFormat"] } : {}),
+      });
+    },
+    where: (...args) => {
+      const [[field, pattern], list] = valueLast(args);
+      if (list === undefined || list === null) return [];
+      if (!Array.isArray(list)) throw new TemplateError("where: expected a list");
+      return list.filter((item) => {
+        const value = item && typeof item === "object" ? (item as Record<string, unknown>)[String(field)] : undefined;
+        return value !== undefined && value !== null && matchesGlob(String(value), String(pattern));
+      });
+    },
+    len: (value) => {
+      if (value === undefined || value === null) return 0;
+      if (typeof value === "string" || Array.isArray(value)) return value.length;
+      if (typeof value === "object") return Object.keys(value).length;
+      throw new TemplateError(`len: can't take the length of ${print(value)}`);
+    },
+    join: (...args) => {
+      const [[separator], list] = valueLast(args);
+      if (!Array.isArray(list)) throw new TemplateError("join: expected a list");
+      return list.map(print).join(separator === undefined ? "" : String(separator));
+    },
+    upper: (value) => print(value).toUpperCase(),
+    lower: (value) => print(value).toLowerCase(),
+    eq: (a, ...rest) => rest.some((b) => a === b),
+    ne: (a, b) => a !== b,
+    lt: (a, b) => compare("lt", a, b) < 0,
+    le: (a, b) => compare("le", a, b) <= 0,
+    gt: (a, b) => compare("gt", a, b) > 0,
+    ge: (a, b) => compare("ge", a, b) >= 0,
+    and: (...args) => args.find((arg) => !isTruthy(arg)) ?? args[args.length - 1],
+    or: (...args) => args.find((arg) => isTruthy(arg)) ?? args[args.length - 1],
+    not: (value) => !isTruthy(value),
+  };
+}
+
+/**
+ * Renders a parsed template.
+ *
+ * @param template - Result of parseTemplate
+ * @param data - Root value (`.` at the top level and `$` everywhere)
+ * @param options - Reset display used by the `reset` helper
+ * @throws TemplateError on runtime errors (e.g. ranging over a non-list)
+ */
+export function renderTemplate(template: Template, data: unknown, options: ResetTimeOptions = {}): string {
+  const functions = buildFunctions(options);
+
+  const evalArg = (arg: Arg, dot: unknown): unknown => {
+    switch (arg.type) {
+      case "literal":
+        return arg.value;
+      case "field":
+        return arg.path.reduce<unknown>(
+          (value, key) =>
+            value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+          arg.root ? data : dot,
+        );
+      case "pipeline":
+        return evalPipeline(arg.pipeline, dot);
+      case "function":
+        return functions[arg.name as keyof typeof functions]();
+    }
+  };
+
+  const evalPipeline = (pipeline: Pipeline, dot: unknown): unknown => {
+    let piped: { value: unknown } | undefined;
+    for (const [head, ...rest] of pipeline) {
+      const args = rest.map((arg) => evalArg(arg, dot));
+      if (piped) args.push(piped.value);
+      if (head.type === "function") {
+        piped = { value: functions[head.name as keyof typeof functions](...args) };
+      } else if (args.length > 0) {
+        throw new TemplateError("Only functions take arguments");
+      } else {
+        piped = { value: evalArg(head, dot) };
+      }
+    }
+    return piped?.value;
+  };
+
+  const renderNodes = (nodes: Node[], dot: unknown): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.text;
+          case "action":
+            return print(evalPipeline(node.pipeline, dot));
+          case "if": {
+            const branch = node.branches.find((b) => isTruthy(evalPipeline(b.condition, dot)));
+            if (branch) return renderNodes(branch.body, dot);
+            return node.otherwise ? renderNodes(node.otherwise, dot) : "";
+          }
+          case "with": {
+            const value = evalPipeline(node.pipeline, dot);
+            if (isTruthy(value)) return renderNodes(node.body, value);
+            return node.otherwise ? renderNodes(node.otherwise, dot) : "";
+          }
+          case "range": {
+            const value = evalPipeline(node.pipeline, dot);
+            if (value !== undefined && value !== null && !Array.isArray(value)) {
+              throw new TemplateError(`range: can't iterate over ${print(value)}`);
+            }
+            if (!value || value.length === 0) return node.otherwise ? renderNodes(node.otherwise, dot) : "";
+            return value.map((item) => renderNodes(node.body, item)).join("");
+          }
+        }
+      })
+      .join("");
+
+  return renderNodes(template.nodes, data);
+}
@@ -0,0 +1,50 @@
+/**
+ * Absolute, timezone-aware time formatting for reset columns.
+ */
+
+/**
+ * How reset times are shown: relative ("2h30m"), absolute
+ * ("2026-01-18 14:00 UTC") or both ("2h30m (2026-01-18 14:00 UTC)").
+ */
+export type ResetFormat = "relative" | "absolute" | "both";
+
+export const RESET_FORMATS: ResetFormat[] = ["relative", "absolute", "both"];
+
+export function isResetFormat(value: string): value is ResetFormat {
+  return (RESET_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Resolves a --tz value: "local" (the system zone), "UTC" or an IANA zone
+ * such as "Europe/Berlin". Case-insensitive.
+ *
+ * @returns The IANA zone name, or undefined if unknown
+ */
+export function parseTimeZone(spec: string): string | undefined {
+  const value = spec.trim();
+  if (value.toLowerCase() === "local") return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (value.toLowerCase() === "utc") return "UTC";
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats a date as "YYYY-MM-DD HH:mm <zone>" in the given zone (local when undefined).
+ */
+export function formatAbsoluteTime(date: Date, timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")} ${part("hour")}:${part("minute")} ${part("timeZoneName")}`;
+}
@@ -0,0 +1,60 @@
+import type { QuotaIdentity } from "./oauth/constants.js";
+import type { AccountQuotaReport } from "./commands/status.js";
+import { compareRows, resetOrder, type SortSpec } from "./selection.js";
+
+/**
+ * One account/identity's quota for a model.
+ */
+export interface ModelPoolEntry {
+  email: string;
+  identity: QuotaIdentity;
+  remainingPercent: number;
+  resetTime: string;
+}
+
+/**
+ * Quota for one model across every account/identity.
+ */
+export interface ModelPool {
+  model: string;
+  entries: ModelPoolEntry[]; // Best first (most remaining, then soonest reset) unless sorted
+  pooledPercent: number; // Sum of remaining percents (100 = one full quota)
+}
+
+/**
+ * Pivots account reports into per-model pools, sorted by model name.
+ *
+ * @param sort - Orders entries within each pool (and pools, for a model sort)
+ */
+export function groupByModel(reports: AccountQuotaReport[], sort?: SortSpec): ModelPool[] {
+  const pools = new Map<string, ModelPoolEntry[]>();
+  for (const report of reports) {
+    for (const model of report.models) {
+      const entry: ModelPoolEntry = {
+        email: report.email,
+        identity: report.identity,
+        remainingPercent: model.remainingPercent,
+        resetTime: model.resetTime,
+      };
+      pools.set(model.model, [...(pools.get(model.model) ?? []), entry]);
+    }
+  }
+
+  const models = [...pools.keys()].sort((a, b) => a.localeCompare(b));
+  if (sort?.key === "model" && sort.direction === "desc") models.reverse();
+
+  return models.map((model) => {
+    const entries = pools.get(model)!;
+    return {
+      model,
+      entries: entries.sort((a, b) =>
+        sort
+          ? compareRows({ ...a, model }, { ...b, model }, sort)
+          : b.remainingPercent - a.remainingPercent ||
+            resetOrder(a.resetTime) - resetOrder(b.resetTime) ||
+            a.email.localeCompare(b.email),
+      ),
+      pooledPercent: entries.reduce((sum, entry) => sum + entry.remainingPercent, 0),
+    };
+  });
+}
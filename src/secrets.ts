@@ -0,0 +1,154 @@
+/**
+ * Secret backends for OAuth tokens. By default tokens live inline in the
+ * accounts store; a credential helper keeps them in an external program
+ * (pass, a vault agent, the OS keychain...) and the store keeps only metadata.
+ *
+ * Helper protocol (modelled on git credential helpers): the command is run
+ * through the shell with `get`, `store` or `erase` appended, and reads
+ * `key=value` lines on stdin, terminated by a blank line:
+ *
+ *   protocol=usage-google
+ *   account=user@example.com
+ *   identity=antigravity
+ *   refreshToken=...        (store only)
+ *   accessToken=...         (store only, when cached)
+ *
+ * `get` prints `refreshToken=...` (and optionally `accessToken=...`) lines on
+ * stdout, or nothing when it has no secret. A non-zero exit is an error.
+ */
+
+import { spawn } from "node:child_process";
+
+import type { QuotaIdentity } from "./oauth/constants.js";
+
+/** Value of the `protocol` attribute sent to helpers. */
+export const HELPER_PROTOCOL = "usage-google";
+
+const HELPER_TIMEOUT_MS = 30_000;
+
+/**
+ * Where tokens are kept, recorded in the store. Absent means inline in the file.
+ */
+export type SecretsConfig = { backend: "helper"; command: string };
+
+/**
+ * Identifies one stored identity's secrets.
+ */
+export type SecretKey = { account: string; identity: QuotaIdentity };
+
+/**
+ * Secret parts of a stored identity.
+ */
+export type IdentitySecrets = { refreshToken: string; accessToken?: string };
+
+export interface SecretBackend {
+  /** Human-readable backend description for messages. */
+  readonly description: string;
+  get(key: SecretKey): Promise<IdentitySecrets | undefined>;
+  store(key: SecretKey, secrets: IdentitySecrets): Promise<void>;
+  erase(key: SecretKey): Promise<void>;
+}
+
+export type HelperAction = "get" | "store" | "erase";
+
+export class SecretBackendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretBackendError";
+  }
+}
+
+/**
+ * Serializes protocol attributes as `key=value` lines plus the terminating blank line.
+ *
+ * @throws SecretBackendError if a value contains a newline (it would break framing)
+ */
+export function formatHelperInput(attributes: Record<string, string | undefined>): string {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    if (/[\r\n]/.test(value)) {
+      throw new SecretBackendError(`Credential helper attribute ${key} must not contain newlines`);
+    }
+    lines.push(`${key}=${value}`);
+  }
+  return lines.join("\n") + "\n\n";
+}
+
+/**
+ * Parses `key=value` lines up to the first blank line; other lines are ignored.
+ */
+export function parseHelperOutput(output: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const line of output.split(/\r?\n/)) {
+    if (line === "") break;
+    const eq = line.indexOf("=");
+    if (eq > 0) attributes[line.slice(0, eq)] = line.slice(eq + 1);
+  }
+  return attributes;
+}
+
+function runHelper(command: string, action: HelperAction, input: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(`${command} ${action}`, {
+      shell: true,
+      stdio: ["pipe", "pipe", "pipe"],
+      timeout: HELPER_TIMEOUT_MS,
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.setEncoding("utf8").on("data", (chunk: string) => (stdout += chunk));
+    child.stderr.setEncoding("utf8").on("data", (chunk: string) => (stderr += chunk));
+    child.on("error", (error) => {
+      reject(new SecretBackendError(`Credential helper "${command}" failed to start: ${error.message}`));
+    });
+    child.on("close", (code, signal) => {
+      if (code === 0) return resolve(stdout);
+      const reason = signal ? `was killed (${signal})` : `exited with code ${code}`;
+      const detail = stderr.trim() ? `: ${stderr.trim()}` : "";
+      reject(new SecretBackendError(`Credential helper "${command}" ${action} ${reason}${detail}`));
+    });
+    // A helper that ignores stdin may close it early; its exit code decides
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Creates a backend that delegates to an external credential helper command.
+ */
+export function createHelperBackend(command: string): SecretBackend {
+  const keyAttributes = (key: SecretKey) => ({
+    protocol: HELPER_PROTOCOL,
+    account: key.account,
+    identity: key.identity,
+  });
+
+  return {
+    description: `credential helper "${command}"`,
+    async get(key) {
+      const output = parseHelperOutput(await runHelper(command, "get", formatHelperInput(keyAttributes(key))));
+      if (!output.refreshToken) return undefined;
+      return output.accessToken
+        ? { refreshToken: output.refreshToken, accessToken: output.accessToken }
+        : { refreshToken: output.refreshToken };
+    },
+    async store(key, secrets) {
+      await runHelper(
+        command,
+        "store",
+        formatHelperInput({ ...keyAttributes(key), refreshToken: secrets.refreshToken, accessToken: secrets.accessToken }),
+      );
+    },
+    async erase(key) {
+      await runHelper(command, "erase", formatHelperInput(keyAttributes(key)));
+    },
+  };
+}
+
+/**
+ * Returns the backend a store's secrets config points at, or undefined for inline tokens.
+ */
+export function createSecretBackend(config: SecretsConfig | undefined): SecretBackend | undefined {
+  return config?.backend === "helper" ? createHelperBackend(config.command) : undefined;
+}
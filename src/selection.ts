@@ -0,0 +1,180 @@
+import type { AccountQuotaReport } from "./commands/status.js";
+import type { ModelQuota } from "./google/quota.js";
+import { matchesGlob } from "./glob.js";
+
+/**
+ * Columns selectable with --columns. Tabular renderers (table, markdown,
+ * csv/tsv) show them in the order given; burn/exhausts need --forecast.
+ */
+export type StatusColumn =
+  | "email"
+  | "identity"
+  | "project"
+  | "model"
+  | "remaining"
+  | "reset"
+  | "status"
+  | "error"
+  | "burn"
+  | "exhausts";
+
+export const STATUS_COLUMNS: StatusColumn[] = [
+  "email",
+  "identity",
+  "project",
+  "model",
+  "remaining",
+  "reset",
+  "status",
+  "error",
+  "burn",
+  "exhausts",
+];
+
+export type SortKey = "remaining" | "reset" | "model" | "email";
+
+export const SORT_KEYS: SortKey[] = ["remaining", "reset", "model", "email"];
+
+/**
+ * Row ordering for --sort.
+ */
+export interface SortSpec {
+  key: SortKey;
+  direction: "asc" | "desc";
+}
+
+/**
+ * One account/identity/model row, as sorted by --sort.
+ */
+export interface ModelRow {
+  report: AccountQuotaReport;
+  model: ModelQuota;
+}
+
+/**
+ * The fields a row is sorted on (shared by ModelRow and pivot entries).
+ */
+export interface SortableRow {
+  email: string;
+  identity: string;
+  model: string;
+  remainingPercent: number;
+  resetTime: string;
+}
+
+/**
+ * Parses a comma-separated column list ("email,model,remaining").
+ *
+ * @returns The columns, or undefined if empty or any name is unknown
+ */
+export function parseColumnList(spec: string): StatusColumn[] | undefined {
+  const names = spec
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.length === 0 || names.some((name) => !(STATUS_COLUMNS as string[]).includes(name))) {
+    return undefined;
+  }
+  return [...new Set(names)] as StatusColumn[];
+}
+
+/**
+ * Parses a sort spec: "remaining", "remaining:desc", "reset:asc".
+ *
+ * @returns The spec (ascending by default), or undefined if malformed
+ */
+export function parseSortSpec(spec: string): SortSpec | undefined {
+  const [key, direction = "asc", ...rest] = spec.trim().toLowerCase().split(":");
+  if (rest.length > 0 || !(SORT_KEYS as string[]).includes(key)) return undefined;
+  if (direction !== "asc" && direction !== "desc") return undefined;
+  return { key: key as SortKey, direction };
+}
+
+/**
+ * Keeps only models matching any of the globs. Reports are kept even when no
+ * model matches, so a successful fetch is never mistaken for a failure.
+ */
+export function filterModels(reports: AccountQuotaReport[], patterns: string[] | undefined): AccountQuotaReport[] {
+  if (!patterns || patterns.length === 0) return reports;
+  return reports.map((report) => ({
+    ...report,
+    models: report.models.filter((model) => patterns.some((pattern) => matchesGlob(model.model, pattern))),
+  }));
+}
+
+/**
+ * Sort key for a reset time: Unix ms, with unparseable times last.
+ */
+export function resetOrder(resetTime: string): number {
+  const resetAt = Date.parse(resetTime);
+  return isNaN(resetAt) ? Number.POSITIVE_INFINITY : resetAt;
+}
+
+function toSortable({ report, model }: ModelRow): SortableRow {
+  return {
+    email: report.email,
+    identity: report.identity,
+    model: model.model,
+    remainingPercent: model.remainingPercent,
+    resetTime: model.resetTime,
+  };
+}
+
+/**
+ * Compares two rows by a sort spec, falling back to email, identity and model
+ * so the order is stable across runs. Unparseable reset times sort last.
+ */
+export function compareRows(a: SortableRow, b: SortableRow, sort: SortSpec): number {
+  let primary = 0;
+  switch (sort.key) {
+    case "remaining":
+      primary = a.remainingPercent - b.remainingPercent;
+      break;
+    case "reset": {
+      const aReset = resetOrder(a.resetTime);
+      const bReset = resetOrder(b.resetTime);
+      primary = aReset === bReset ? 0 : aReset < bReset ? -1 : 1;
+      break;
+    }
+    case "model":
+      primary = a.model.localeCompare(b.model);
+      break;
+    case "email":
+      primary = a.email.localeCompare(b.email);
+      break;
+  }
+  if (sort.direction === "desc") primary = -primary;
+
+  return (
+    primary ||
+    a.email.localeCompare(b.email) ||
+    a.identity.localeCompare(b.identity) ||
+    a.model.localeCompare(b.model)
+  );
+}
+
+/**
+ * Flattens reports into rows sorted across all accounts.
+ */
+export function sortModelRows(reports: AccountQuotaReport[], sort: SortSpec): ModelRow[] {
+  return reports
+    .flatMap((report) => report.models.map((model) => ({ report, model })))
+    .sort((a, b) => compareRows(toSortable(a), toSortable(b), sort));
+}
+
+/**
+ * Sorts nested reports for structured output (JSON): models within each
+ * report, then reports by their first model (reports without models last).
+ */
+export function sortReports(reports: AccountQuotaReport[], sort: SortSpec): AccountQuotaReport[] {
+  const compare = (a: ModelRow, b: ModelRow) => compareRows(toSortable(a), toSortable(b), sort);
+  return reports
+    .map((report) => ({
+      ...report,
+      models: [...report.models].sort((a, b) => compare({ report, model: a }, { report, model: b })),
+    }))
+    .sort((a, b) => {
+      if (a.models.length === 0 || b.models.length === 0) return b.models.length - a.models.length;
+      return compare({ report: a, model: a.models[0] }, { report: b, model: b.models[0] });
+    });
+}
@@ -1,10 +1,35 @@
-import { mkdir, readFile, writeFile, rename } from "node:fs/promises";
+import { randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, writeFile, rename, rm, stat } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 
+import type { QuotaIdentity } from "./oauth/constants.js";
+import {
+  createKdfParams,
+  decryptStoreData,
+  encryptStoreData,
+  isEncryptedStoreFile,
+  secretFromEnv,
+  StoreEncryptionError,
+  KEY_FILE_ENV,
+  PASSPHRASE_ENV,
+  type KdfParams,
+  type StoreSecret,
+} from "./encryption.js";
+import {
+  createSecretBackend,
+  SecretBackendError,
+  type SecretBackend,
+  type SecretKey,
+  type SecretsConfig,
+} from "./secrets.js";
+import { migrateStore, STORE_VERSION, StoreVersionError } from "./migrations.js";
+import { withFileLock } from "./lock.js";
+
 export type UsageOpencodeStore = {
-  version: 1;
+  version: typeof STORE_VERSION;
   accounts: UsageOpencodeAccount[];
+  secrets?: SecretsConfig; // Tokens kept by a credential helper instead of inline
 };
 
 export type UsageOpencodeIdentity = {
@@ -15,8 +40,8 @@ export type UsageOpencodeIdentity = {
 };
 
 export type UsageOpencodeAccount = {
+  id: string; // Stable account ID, assigned when the account is first stored
   email: string;
-  projectId?: string; // Legacy: shared project ID (deprecated, kept for migration)
   antigravity?: UsageOpencodeIdentity;
   geminiCli?: UsageOpencodeIdentity;
   addedAt: number;
@@ -51,27 +76,315 @@ function getLegacyUsageStorePath(opts?: { configDir?: string }): string {
 }
 
 function emptyStore(): UsageOpencodeStore {
-  return { version: 1, accounts: [] };
+  return { version: STORE_VERSION, accounts: [] };
 }
 
-async function readStoreFile(filePath: string): Promise<UsageOpencodeStore | undefined> {
-  try {
-    const raw = await readFile(filePath, "utf8");
-    const parsed = JSON.parse(raw) as UsageOpencodeStore;
+/** Secret set by unlockStore; falls back to the environment. */
+let unlockedSecret: StoreSecret | undefined;
+
+/**
+ * Unlocks an encrypted store for the rest of the process (e.g. after prompting
+ * for the passphrase). Without it, USAGE_GOOGLE_PASSPHRASE or
+ * USAGE_GOOGLE_KEY_FILE is used.
+ */
+export function unlockStore(secret: StoreSecret | undefined): void {
+  unlockedSecret = secret;
+}
+
+function requireSecret(filePath: string): StoreSecret {
+  const secret = unlockedSecret ?? secretFromEnv();
+  if (!secret) {
+    throw new StoreEncryptionError(
+      `${filePath} is encrypted. Set ${PASSPHRASE_ENV} or ${KEY_FILE_ENV} to unlock it.`,
+    );
+  }
+  return secret;
+}
+
+/**
+ * Parses a store file, decrypting it when encrypted.
+ *
+ * @throws StoreEncryptionError when an encrypted store can't be unlocked
+ */
+async function parseStoreContents(raw: string, filePath: string): Promise<unknown> {
+  const parsed: unknown = JSON.parse(raw);
+  return isEncryptedStoreFile(parsed) ? JSON.parse(await decryptStoreData(parsed, requireSecret(filePath))) : parsed;
+}
+
+const IDENTITY_FIELDS: Array<[QuotaIdentity, "antigravity" | "geminiCli"]> = [
+  ["antigravity", "antigravity"],
+  ["gemini-cli", "geminiCli"],
+];
 
-    if (parsed && parsed.version === 1 && Array.isArray(parsed.accounts)) {
-      return parsed;
+/**
+ * Secrets this process last read from or wrote to each backend, so saves only
+ * call the helper for changed tokens and can erase identities that were removed.
+ */
+const knownSecrets = new Map<string, string>();
+
+function knownSecretId(backend: SecretBackend, key: SecretKey): string {
+  return `${backend.description}\n${key.account}\n${key.identity}`;
+}
+
+/**
+ * Fills identity tokens from the store's credential helper, if it uses one.
+ */
+async function resolveSecrets(store: UsageOpencodeStore): Promise<UsageOpencodeStore> {
+  const backend = createSecretBackend(store.secrets);
+  if (!backend) return store;
+
+  const accounts: UsageOpencodeAccount[] = [];
+  for (const account of store.accounts) {
+    const next = { ...account };
+    for (const [identity, field] of IDENTITY_FIELDS) {
+      const data = next[field];
+      if (!data) continue;
+      const key = { account: account.email, identity };
+      const secrets = await backend.get(key);
+      if (!secrets) {
+        console.error(`Warning: ${backend.description} has no token for ${account.email} (${identity})`);
+      } else {
+        knownSecrets.set(knownSecretId(backend, key), JSON.stringify(secrets));
+      }
+      next[field] = {
+        ...data,
+        refreshToken: secrets?.refreshToken ?? "",
+        ...(secrets?.accessToken ? { cachedAccessToken: secrets.accessToken } : {}),
+      };
     }
+    accounts.push(next);
+  }
+  return { ...store, accounts };
+}
+
+/**
+ * Hands identity tokens to the credential helper (only those that changed) and
+ * erases identities no longer in the store.
+ *
+ * @returns The store with tokens stripped, as written to disk
+ */
+async function storeSecrets(backend: SecretBackend, store: UsageOpencodeStore): Promise<object> {
+  const present = new Set<string>();
+  const accounts: object[] = [];
+
+  for (const account of store.accounts) {
+    const next: Record<string, unknown> = { ...account };
+    for (const [identity, field] of IDENTITY_FIELDS) {
+      const data = account[field];
+      if (!data) continue;
+      const key = { account: account.email, identity };
+      const id = knownSecretId(backend, key);
+      const secrets = data.cachedAccessToken
+        ? { refreshToken: data.refreshToken, accessToken: data.cachedAccessToken }
+        : { refreshToken: data.refreshToken };
+      present.add(id);
+      // An empty token means the helper had none on load; don't store it back
+      if (data.refreshToken && knownSecrets.get(id) !== JSON.stringify(secrets)) {
+        await backend.store(key, secrets);
+        knownSecrets.set(id, JSON.stringify(secrets));
+      }
+      const { refreshToken: _refreshToken, cachedAccessToken: _cachedAccessToken, ...metadata } = data;
+      next[field] = metadata;
+    }
+    accounts.push(next);
+  }
+
+  const prefix = `${backend.description}\n`;
+  for (const id of [...knownSecrets.keys()]) {
+    if (!id.startsWith(prefix) || present.has(id)) continue;
+    const [, account, identity] = id.split("\n");
+    await backend.erase({ account, identity: identity as QuotaIdentity });
+    knownSecrets.delete(id);
+  }
+
+  return { ...store, accounts };
+}
+
+/**
+ * Fills identity tokens of a store read without its helper from what this
+ * process last read from or wrote to that helper, so a merge sees the tokens
+ * the helper holds instead of none.
+ */
+function withKnownSecrets(store: UsageOpencodeStore): UsageOpencodeStore {
+  const backend = createSecretBackend(store.secrets);
+  if (!backend) return store;
+
+  const accounts = store.accounts.map((account) => {
+    const next = { ...account };
+    for (const [identity, field] of IDENTITY_FIELDS) {
+      const data = next[field];
+      const known = data && knownSecrets.get(knownSecretId(backend, { account: account.email, identity }));
+      if (!data || !known) continue;
+      const secrets = JSON.parse(known) as { refreshToken: string; accessToken?: string };
+      next[field] = {
+        ...data,
+        refreshToken: secrets.refreshToken,
+        ...(secrets.accessToken ? { cachedAccessToken: secrets.accessToken } : {}),
+      };
+    }
+    return next;
+  });
+  return { ...store, accounts };
+}
+
+type StoreFileContents = {
+  store: UsageOpencodeStore;
+  from: number; // Version the file was written as
+  raw: string; // File contents as read, for the pre-migration backup
+};
+
+/**
+ * @param resolveTokens - Fetch tokens from the store's credential helper (false leaves them out)
+ */
+async function readStoreFile(filePath: string, resolveTokens = true): Promise<StoreFileContents | undefined> {
+  let raw: string;
+  let parsed: unknown;
+  try {
+    raw = await readFile(filePath, "utf8");
+    parsed = await parseStoreContents(raw, filePath);
+  } catch (err) {
+    // Never fall back to an empty store that the next save would write over the encrypted one
+    if (err instanceof StoreEncryptionError) throw err;
+    // File doesn't exist or is unreadable - this is fine
+    return undefined;
+  }
 
+  let migrated: { store: UsageOpencodeStore; from: number };
+  try {
+    migrated = migrateStore(parsed);
+  } catch (err) {
+    // Same for a newer store: an older build must not overwrite it
+    if (err instanceof StoreVersionError) throw new StoreVersionError(`${filePath}: ${err.message}`);
     // Log corruption but don't throw
-    console.error(`Warning: Storage file corrupted at ${filePath}`);
+    console.error(`Warning: Storage file corrupted at ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
     return undefined;
+  }
+
+  const store = resolveTokens ? await resolveSecrets(migrated.store) : migrated.store;
+  return { store, from: migrated.from, raw };
+}
+
+/**
+ * Returns the KDF parameters of an encrypted store, or undefined for a
+ * plaintext or missing store.
+ */
+export async function getStoreEncryption(opts?: { configDir?: string }): Promise<KdfParams | undefined> {
+  try {
+    const parsed: unknown = JSON.parse(await readFile(getUsageStorePath(opts), "utf8"));
+    return isEncryptedStoreFile(parsed) ? parsed.kdf : undefined;
   } catch {
-    // File doesn't exist or is unreadable - this is fine
     return undefined;
   }
 }
 
+/**
+ * Health of the store file on disk (used by `doctor`).
+ */
+export type StoreFileHealth = {
+  path: string;
+  exists: boolean;
+  mode?: number; // Permission bits (e.g. 0o600); undefined on Windows-like systems
+  encrypted?: boolean; // Set when the file is an encrypted store
+  version?: number; // Store schema version in the file (older ones migrate on the next load)
+  accountCount?: number; // Set when the file parsed as a valid store
+  error?: string; // Read/parse/validation problem
+};
+
+/**
+ * Inspects the store file without modifying it: existence, permissions and parse health.
+ */
+export async function checkStoreFile(opts?: { configDir?: string }): Promise<StoreFileHealth> {
+  const storePath = getUsageStorePath(opts);
+
+  let mode: number | undefined;
+  try {
+    const info = await stat(storePath);
+    mode = process.platform === "win32" ? undefined : info.mode & 0o777;
+  } catch {
+    return { path: storePath, exists: false };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(storePath, "utf8"));
+  } catch (err) {
+    return { path: storePath, exists: true, mode, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const encrypted = isEncryptedStoreFile(parsed) || undefined;
+  if (isEncryptedStoreFile(parsed)) {
+    try {
+      parsed = JSON.parse(await decryptStoreData(parsed, requireSecret(storePath)));
+    } catch (err) {
+      return { path: storePath, exists: true, mode, encrypted, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  const version = (parsed as { version?: unknown } | null)?.version;
+  try {
+    const { store } = migrateStore(parsed);
+    return {
+      path: storePath,
+      exists: true,
+      mode,
+      encrypted,
+      version: version as number,
+      accountCount: store.accounts.length,
+    };
+  } catch (err) {
+    return {
+      path: storePath,
+      exists: true,
+      mode,
+      encrypted,
+      version: typeof version === "number" ? version : undefined,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Copies the pre-migration file next to the store as `<store>.v<version>.bak`
+ * (owner-only, like the store). An existing backup of that version is kept.
+ */
+async function backupStoreFile(storePath: string, version: number, raw: string): Promise<string> {
+  const backupPath = `${storePath}.v${version}.bak`;
+  try {
+    await writeFile(backupPath, raw, { encoding: "utf8", mode: 0o600, flag: "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+  }
+  return backupPath;
+}
+
+/**
+ * Deletes the plaintext copies of the store kept next to it: pre-migration
+ * backups (`<store>.v<version>.bak`) and the legacy store file. Encrypting the
+ * store, moving its tokens to a helper or logging out would otherwise leave
+ * their tokens behind.
+ *
+ * @returns Paths of the deleted files
+ */
+export async function removeStoreBackups(opts?: { configDir?: string }): Promise<string[]> {
+  const storePath = getUsageStorePath(opts);
+  const dir = path.dirname(storePath);
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const isBackup = (name: string) =>
+    name === LEGACY_STORE_FILENAME ||
+    (name.startsWith(`${STORE_FILENAME}.v`) && /^\d+\.bak$/.test(name.slice(STORE_FILENAME.length + 2)));
+  const removed = names.filter(isBackup).map((name) => path.join(dir, name));
+  for (const file of removed) {
+    await rm(file, { force: true });
+  }
+  return removed;
+}
+
 export async function loadStore(opts?: { configDir?: string }): Promise<UsageOpencodeStore> {
   const storePath = getUsageStorePath(opts);
   const legacyPath = getLegacyUsageStorePath(opts);
@@ -83,33 +396,254 @@ export async function loadStore(opts?: { configDir?: string }): Promise<UsageOpe
   ]);
   
   if (current) {
-    return current;
+    if (current.from < STORE_VERSION) {
+      await backupStoreFile(storePath, current.from, current.raw);
+      await saveStore(opts, current.store);
+    }
+    rememberStore(storePath, current.store);
+    return current.store;
   }
   
   if (legacy) {
-    // Migrate legacy file to new location
-    await saveStore(opts, legacy);
-    return legacy;
+    // Migrate legacy file to new location (the legacy file itself is left as a backup)
+    await saveStore(opts, legacy.store);
+    return legacy.store;
   }
 
-  return emptyStore();
+  const store = emptyStore();
+  rememberStore(storePath, store);
+  return store;
 }
 
-export async function saveStore(opts: { configDir?: string } | undefined, store: UsageOpencodeStore): Promise<void> {
-  const storePath = getUsageStorePath(opts);
+/**
+ * Writes store file contents atomically with owner-only permissions.
+ */
+async function writeStoreContents(storePath: string, contents: string): Promise<void> {
   await mkdir(path.dirname(storePath), { recursive: true });
-  
-  // Write to temporary file first for atomic operation
-  const tempPath = `${storePath}.tmp`;
-  await writeFile(tempPath, JSON.stringify(store, null, 2) + "\n", {
+
+  // Write to a temporary file first for atomic operation (unique, so parallel writers don't share it)
+  const tempPath = `${storePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  await writeFile(tempPath, contents, {
     encoding: "utf8",
     mode: 0o600  // Only owner can read/write
   });
-  
+
   // Atomic rename to final location
   await rename(tempPath, storePath);
 }
 
+async function serializeStore(
+  store: object,
+  encryption?: { secret: StoreSecret; kdf?: KdfParams },
+): Promise<string> {
+  const json = JSON.stringify(store, null, 2) + "\n";
+  if (!encryption) return json;
+  return JSON.stringify(await encryptStoreData(json, encryption.secret, encryption.kdf), null, 2) + "\n";
+}
+
+/**
+ * The store as written to disk: tokens go to its credential helper, if it uses one.
+ */
+async function diskStore(store: UsageOpencodeStore): Promise<object> {
+  const backend = createSecretBackend(store.secrets);
+  return backend ? storeSecrets(backend, store) : store;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merges one identity field by field: fields this process changed come from
+ * mine, everything else from other. Adding or removing the identity wins outright.
+ */
+function mergeIdentity(
+  base: UsageOpencodeIdentity | undefined,
+  mine: UsageOpencodeIdentity | undefined,
+  other: UsageOpencodeIdentity | undefined,
+): UsageOpencodeIdentity | undefined {
+  if (sameJson(mine, base)) return other;
+  if (!mine || !other) return mine;
+
+  const merged: Record<string, unknown> = { ...other };
+  for (const key of new Set([...Object.keys(mine), ...Object.keys(base ?? {})])) {
+    const value = (mine as Record<string, unknown>)[key];
+    if (sameJson(value, (base as Record<string, unknown> | undefined)?.[key])) continue;
+    if (value === undefined) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged as UsageOpencodeIdentity;
+}
+
+/**
+ * Three-way merge of a store being saved (ours) with the one on disk (theirs),
+ * relative to what this process last loaded (base). Identity fields and the
+ * secrets config come from ours where this process changed them and from
+ * theirs otherwise, so whatever another process wrote in the meantime is kept.
+ * Without a base, everything ours has counts as changed.
+ */
+export function mergeStores(
+  base: UsageOpencodeStore | undefined,
+  ours: UsageOpencodeStore,
+  theirs: UsageOpencodeStore | undefined,
+): UsageOpencodeStore {
+  if (!theirs) return ours;
+
+  const find = (store: UsageOpencodeStore | undefined, email: string) =>
+    store?.accounts.find((account) => account.email === email);
+  const emails = [
+    ...ours.accounts.map((account) => account.email),
+    ...theirs.accounts.map((account) => account.email).filter((email) => !find(ours, email)),
+  ];
+
+  const accounts: UsageOpencodeAccount[] = [];
+  for (const email of emails) {
+    const mine = find(ours, email);
+    const other = find(theirs, email);
+    const original = find(base, email);
+    const merged = { ...(other ?? mine)!, ...mine };
+    for (const [, field] of IDENTITY_FIELDS) {
+      const value = mergeIdentity(original?.[field], mine?.[field], other?.[field]);
+      if (value) merged[field] = value;
+      else delete merged[field];
+    }
+    if (!merged.antigravity && !merged.geminiCli) continue;
+
+    // Keep our id (both sides may have minted one); widest timestamps win
+    merged.addedAt = Math.min(mine?.addedAt ?? Infinity, other?.addedAt ?? Infinity);
+    merged.updatedAt = Math.max(mine?.updatedAt ?? 0, other?.updatedAt ?? 0);
+    accounts.push(merged);
+  }
+
+  const secrets = base && sameJson(ours.secrets, base.secrets) ? theirs.secrets : ours.secrets;
+  const { secrets: _ours, ...rest } = ours;
+  return secrets ? { ...rest, accounts, secrets } : { ...rest, accounts };
+}
+
+/**
+ * Store contents this process last loaded or saved, per store path: the merge base for saveStore.
+ */
+const storeSnapshots = new Map<string, string>();
+
+function rememberStore(storePath: string, store: UsageOpencodeStore): void {
+  storeSnapshots.set(storePath, JSON.stringify(store));
+}
+
+/**
+ * Saves the store under the store lock, merged with whatever another process
+ * wrote since this one loaded it (see mergeStores). Keeps the on-disk format:
+ * an encrypted store stays encrypted (with the unlocked secret), a plaintext
+ * one stays plaintext.
+ */
+export async function saveStore(opts: { configDir?: string } | undefined, store: UsageOpencodeStore): Promise<void> {
+  const storePath = getUsageStorePath(opts);
+  await withFileLock(storePath, async () => {
+    const snapshot = storeSnapshots.get(storePath);
+    const base = snapshot ? (JSON.parse(snapshot) as UsageOpencodeStore) : undefined;
+    // Tokens another process put in our credential helper are already there; merge the file
+    // with the tokens we know the helper holds then. Writing tokens inline needs theirs,
+    // wherever they are kept.
+    const theirs = (await readStoreFile(storePath, !store.secrets))?.store;
+    const merged = mergeStores(base, store, theirs && store.secrets ? withKnownSecrets(theirs) : theirs);
+
+    const kdf = await getStoreEncryption(opts);
+    const contents = await serializeStore(await diskStore(merged), kdf ? { secret: requireSecret(storePath), kdf } : undefined);
+    await writeStoreContents(storePath, contents);
+  });
+  // Our own changes are now on disk; later saves only override what changes after this
+  rememberStore(storePath, store);
+}
+
+/**
+ * Moves tokens to another secret backend: a credential helper, or back inline
+ * into the store file (undefined). Tokens are erased from the previous helper
+ * once the store has been written.
+ *
+ * @returns Number of accounts in the store
+ * @throws SecretBackendError if the store already uses that backend or a helper call fails
+ */
+export async function setSecretsBackend(
+  opts: { configDir?: string } | undefined,
+  secrets: SecretsConfig | undefined,
+): Promise<number> {
+  const store = await loadStore(opts);
+  const previous = createSecretBackend(store.secrets);
+  if (JSON.stringify(store.secrets) === JSON.stringify(secrets)) {
+    const where = previous ? `by ${previous.description}` : "in the store file";
+    throw new SecretBackendError(`Tokens are already kept ${where}`);
+  }
+
+  const { secrets: _previous, ...rest } = store;
+  await saveStore(opts, secrets ? { ...rest, secrets } : rest);
+
+  if (previous) {
+    for (const account of store.accounts) {
+      for (const [identity, field] of IDENTITY_FIELDS) {
+        if (!account[field]) continue;
+        const key = { account: account.email, identity };
+        await previous.erase(key);
+        knownSecrets.delete(knownSecretId(previous, key));
+      }
+    }
+  }
+  return store.accounts.length;
+}
+
+/**
+ * Rewrites the store in another on-disk format. The store is re-read under the
+ * lock and merged like saveStore does, so a save that lands after loading it
+ * (a token refresh, a login) is kept.
+ *
+ * @param encrypted - Whether the store is expected to be encrypted now
+ * @returns Number of accounts in the store
+ */
+async function rewriteStore(
+  opts: { configDir?: string } | undefined,
+  encrypted: boolean,
+  encryption?: { secret: StoreSecret; kdf: KdfParams },
+): Promise<number> {
+  const storePath = getUsageStorePath(opts);
+  const checkEncryption = async () => {
+    if (Boolean(await getStoreEncryption(opts)) !== encrypted) {
+      throw new StoreEncryptionError(`${storePath} is ${encrypted ? "not" : "already"} encrypted`);
+    }
+  };
+
+  await checkEncryption();
+  // Migrates an older or legacy store first (saving it under the lock itself)
+  const loaded = await loadStore(opts);
+  const merged = await withFileLock(storePath, async () => {
+    await checkEncryption();
+    // Tokens kept by a helper stay there; only the file is rewritten
+    const theirs = (await readStoreFile(storePath, false))?.store;
+    const merged = mergeStores(loaded, loaded, theirs && withKnownSecrets(theirs));
+    await writeStoreContents(storePath, await serializeStore(await diskStore(merged), encryption));
+    return merged;
+  });
+  rememberStore(storePath, merged);
+  return merged.accounts.length;
+}
+
+/**
+ * Rewrites a plaintext store encrypted with the given secret.
+ *
+ * @returns Number of accounts in the store
+ * @throws StoreEncryptionError if the store is already encrypted
+ */
+export async function encryptStore(opts: { configDir?: string } | undefined, secret: StoreSecret): Promise<number> {
+  return rewriteStore(opts, false, { secret, kdf: createKdfParams(secret) });
+}
+
+/**
+ * Rewrites an encrypted store as plaintext (unlocked via unlockStore or the environment).
+ *
+ * @returns Number of accounts in the store
+ * @throws StoreEncryptionError if the store isn't encrypted or can't be unlocked
+ */
+export async function decryptStore(opts?: { configDir?: string }): Promise<number> {
+  return rewriteStore(opts, true);
+}
+
 export function upsertAccount(
   store: UsageOpencodeStore,
   partial: Partial<UsageOpencodeAccount> & { email: string }
@@ -119,8 +653,8 @@ export function upsertAccount(
 
   if (existingIndex === -1) {
     const nextAccount: UsageOpencodeAccount = {
+      id: partial.id ?? randomUUID(),
       email: partial.email,
-      projectId: partial.projectId,
       antigravity: partial.antigravity,
       geminiCli: partial.geminiCli,
       addedAt: partial.addedAt ?? now,
@@ -147,3 +681,37 @@ export function upsertAccount(
 
   return { ...store, accounts };
 }
+
+/**
+ * Removes an account, or a single identity of it, from the store.
+ * Dropping the last remaining identity removes the whole account.
+ */
+export function removeAccount(
+  store: UsageOpencodeStore,
+  email: string,
+  identity?: QuotaIdentity
+): UsageOpencodeStore {
+  const existingIndex = store.accounts.findIndex((a) => a.email === email);
+  if (existingIndex === -1) {
+    return store;
+  }
+
+  const accounts = store.accounts.slice();
+
+  if (!identity) {
+    accounts.splice(existingIndex, 1);
+    return { ...store, accounts };
+  }
+
+  const identityKey = identity === "antigravity" ? "antigravity" : "geminiCli";
+  const next: UsageOpencodeAccount = { ...accounts[existingIndex], updatedAt: Date.now() };
+  delete next[identityKey];
+
+  if (!next.antigravity && !next.geminiCli) {
+    accounts.splice(existingIndex, 1);
+  } else {
+    accounts[existingIndex] = next;
+  }
+
+  return { ...store, accounts };
+}
@@ -0,0 +1,92 @@
+import type { QuotaIdentity } from "./oauth/constants.js";
+import type { AccountQuotaReport } from "./commands/status.js";
+import { matchesGlob } from "./glob.js";
+
+/**
+ * A minimum remaining-percent rule, optionally scoped to a model glob.
+ */
+export type ThresholdRule = {
+  pattern?: string; // Model glob (e.g. "claude-*"); undefined applies to every model
+  minPercent: number; // 0..100
+};
+
+/**
+ * A model whose remaining quota is below its threshold.
+ */
+export type ThresholdViolation = {
+  email: string;
+  identity: QuotaIdentity;
+  model: string;
+  remainingPercent: number;
+  minPercent: number;
+  pattern?: string;
+};
+
+/**
+ * Parses a threshold spec: "10" (all models) or "claude-*:20" (matching models).
+ *
+ * @returns The rule, or undefined if the spec is malformed
+ */
+export function parseThresholdSpec(spec: string): ThresholdRule | undefined {
+  const separator = spec.lastIndexOf(":");
+  const pattern = separator === -1 ? undefined : spec.slice(0, separator).trim();
+  const value = separator === -1 ? spec : spec.slice(separator + 1);
+
+  if (pattern !== undefined && pattern.length === 0) return undefined;
+  if (!/^\d+(\.\d+)?$/.test(value.trim())) return undefined;
+
+  const minPercent = Number(value);
+  if (minPercent < 0 || minPercent > 100) return undefined;
+
+  return { pattern, minPercent };
+}
+
+/**
+ * Picks the rule that applies to a model: the last matching pattern rule,
+ * otherwise the last rule without a pattern.
+ */
+function ruleForModel(model: string, rules: ThresholdRule[]): ThresholdRule | undefined {
+  const scoped = rules.filter((rule) => rule.pattern !== undefined && matchesGlob(model, rule.pattern));
+  if (scoped.length > 0) return scoped[scoped.length - 1];
+
+  const global = rules.filter((rule) => rule.pattern === undefined);
+  return global[global.length - 1];
+}
+
+/**
+ * One-line description of a violation, as reported on stderr.
+ */
+export function formatThresholdViolation(v: ThresholdViolation): string {
+  return (
+    `Below threshold: ${v.email} ${v.identity} ${v.model} ${v.remainingPercent}% < ${v.minPercent}%` +
+    (v.pattern ? ` (${v.pattern})` : "")
+  );
+}
+
+/**
+ * Lists every model below its applicable threshold.
+ */
+export function findThresholdViolations(
+  reports: AccountQuotaReport[],
+  rules: ThresholdRule[],
+): ThresholdViolation[] {
+  if (rules.length === 0) return [];
+
+  const violations: ThresholdViolation[] = [];
+  for (const report of reports) {
+    for (const model of report.models) {
+      const rule = ruleForModel(model.model, rules);
+      if (rule && model.remainingPercent < rule.minPercent) {
+        violations.push({
+          email: report.email,
+          identity: report.identity,
+          model: model.model,
+          remainingPercent: model.remainingPercent,
+          minPercent: rule.minPercent,
+          pattern: rule.pattern,
+        });
+      }
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,21 @@
+import { readFileSync } from "node:fs";
+
+/**
+ * Tool name and version, read from package.json (one level above both src/ and dist/).
+ */
+function readPackageInfo(): { name: string; version: string } {
+  try {
+    const pkg = JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf8")) as {
+      name?: string;
+      version?: string;
+    };
+    return { name: pkg.name ?? "usage-google-opencode", version: pkg.version ?? "0.0.0" };
+  } catch {
+    return { name: "usage-google-opencode", version: "0.0.0" };
+  }
+}
+
+const packageInfo = readPackageInfo();
+
+export const TOOL_NAME = packageInfo.name;
+export const TOOL_VERSION = packageInfo.version;